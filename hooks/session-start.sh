@@ -10,7 +10,7 @@ echo "━━━━━━━━━━━━━━━━━━━━━━━━
 echo "📝 INSTRUCTION FOR CLAUDE:"
 echo ""
 echo "Please proactively call the 'get_context' MCP tool now to load"
-echo "relevant memories for this project. Use limit: 5 and verbose: false."
+echo "relevant memories for this project. Use maxTokens: 2000 and verbose: false."
 echo ""
 echo "After loading context, briefly summarize what you recalled."
 echo "━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━"
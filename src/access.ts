@@ -0,0 +1,48 @@
+import { readStorageFile, writeStorageFile, withIndexLock } from './storage.js';
+import type { Config } from './types.js';
+
+/**
+ * How often each memory has been used (returned by recall or get_context, or
+ * read as a resource). Feeds the usage boost in search ranking.
+ */
+export interface AccessStats {
+  version: number;
+  memories: Record<string, { count: number; lastAccessed: string }>;
+}
+
+const ACCESS_FILE = 'access-stats.json';
+
+export async function readAccessStats(config: Config): Promise<AccessStats> {
+  const content = await readStorageFile(config, ACCESS_FILE);
+  if (content) {
+    try {
+      const stats = JSON.parse(content) as AccessStats;
+      if (stats && stats.memories) return stats;
+    } catch {
+      // Usage data is best effort - start again if the file is damaged
+    }
+  }
+  return { version: 1, memories: {} };
+}
+
+/**
+ * Count one use of each memory. Failures are ignored so a read-only or busy
+ * store never breaks recall.
+ */
+export async function recordAccess(config: Config, ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+
+  try {
+    await withIndexLock(config, async () => {
+      const stats = await readAccessStats(config);
+      const now = new Date().toISOString();
+      for (const id of new Set(ids)) {
+        const current = stats.memories[id];
+        stats.memories[id] = { count: (current?.count || 0) + 1, lastAccessed: now };
+      }
+      await writeStorageFile(config, ACCESS_FILE, JSON.stringify(stats));
+    });
+  } catch {
+    // Ignore - see above
+  }
+}
@@ -0,0 +1,106 @@
+import { readStorageFile, writeStorageFile } from './storage.js';
+import type { Config } from './types.js';
+
+/**
+ * Project alias registry: several project IDs (old remote URLs after a
+ * rename, transfer or host move) that are one logical project. Stored in
+ * project-aliases.json in the storage folder, so it syncs with the memories.
+ * Maps each canonical project ID to its aliases.
+ */
+export type ProjectAliasMap = Record<string, string[]>;
+
+const ALIASES_FILE = 'project-aliases.json';
+
+export async function loadProjectAliases(config: Config): Promise<ProjectAliasMap> {
+  const map: ProjectAliasMap = {};
+
+  const content = await readStorageFile(config, ALIASES_FILE);
+  if (content) {
+    try {
+      const data = JSON.parse(content) as Record<string, unknown>;
+      for (const [canonical, aliases] of Object.entries(data)) {
+        if (Array.isArray(aliases)) {
+          map[canonical] = aliases.filter((a): a is string => typeof a === 'string');
+        }
+      }
+    } catch {
+      // A malformed file means no aliases
+    }
+  }
+
+  return map;
+}
+
+export async function saveProjectAliases(config: Config, map: ProjectAliasMap): Promise<void> {
+  await writeStorageFile(config, ALIASES_FILE, JSON.stringify(map, null, 2));
+}
+
+/**
+ * All project IDs of the logical project a project ID belongs to, canonical
+ * ID first
+ */
+export function getProjectGroup(map: ProjectAliasMap, projectId: string): string[] {
+  for (const [canonical, aliases] of Object.entries(map)) {
+    if (canonical === projectId || aliases.includes(projectId)) {
+      return [canonical, ...aliases.filter((a) => a !== canonical)];
+    }
+  }
+  return [projectId];
+}
+
+/**
+ * Make alias resolve to the project canonical belongs to. The alias's own
+ * group (if any) joins that project.
+ */
+export function addProjectAlias(map: ProjectAliasMap, canonical: string, alias: string): ProjectAliasMap {
+  const target = getProjectGroup(map, canonical)[0];
+  const moving = getProjectGroup(map, alias);
+  if (moving.includes(target)) {
+    return map;
+  }
+
+  const result: ProjectAliasMap = {};
+  for (const [key, aliases] of Object.entries(map)) {
+    if (moving.includes(key)) continue;
+    result[key] = aliases.filter((a) => !moving.includes(a));
+  }
+  result[target] = [...new Set([...(result[target] || []), ...moving])];
+  return result;
+}
+
+/**
+ * Remove a project ID from the registry. Returns null if it isn't registered
+ * as an alias.
+ */
+export function removeProjectAlias(map: ProjectAliasMap, alias: string): ProjectAliasMap | null {
+  let found = false;
+  const result: ProjectAliasMap = {};
+  for (const [canonical, aliases] of Object.entries(map)) {
+    const remaining = aliases.filter((a) => a !== alias);
+    found = found || remaining.length !== aliases.length;
+    if (remaining.length > 0) {
+      result[canonical] = remaining;
+    }
+  }
+  return found ? result : null;
+}
+
+/**
+ * Every project ID whose memories belong to the given project: its group in
+ * the registry plus the groups of any extra aliases (e.g. from
+ * .claude-memory.json)
+ */
+export async function resolveProjectIds(
+  config: Config,
+  projectId: string,
+  extraAliases: string[] = []
+): Promise<string[]> {
+  const map = await loadProjectAliases(config);
+  const ids = new Set<string>();
+  for (const id of [projectId, ...extraAliases]) {
+    for (const member of getProjectGroup(map, id)) {
+      ids.add(member);
+    }
+  }
+  return [...ids];
+}
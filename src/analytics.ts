@@ -21,8 +21,8 @@ export async function getMemoryStatistics(config: Config): Promise<MemoryStats>
 
   const stats: MemoryStats = {
     total: entries.length,
-    byCategory: {},
-    byProject: {},
+    byCategory: Object.create(null), // Keyed by category names, which can be any text
+    byProject: Object.create(null),
     byPriority: { high: 0, normal: 0, low: 0 },
     topTags: [],
     expired: 0,
@@ -57,6 +57,11 @@ export async function getMemoryStatistics(config: Config): Promise<MemoryStats>
         stats.byProject[projectKey] = { name: entry.projectName || 'Unknown', count: 0 };
       }
       stats.byProject[projectKey].count++;
+    } else if (entry.orgId) {
+      if (!stats.byProject[entry.orgId]) {
+        stats.byProject[entry.orgId] = { name: `(Org) ${entry.orgId}`, count: 0 };
+      }
+      stats.byProject[entry.orgId].count++;
     } else {
       if (!stats.byProject['global']) {
         stats.byProject['global'] = { name: '(Global)', count: 0 };
@@ -395,7 +400,7 @@ function getCategoryColor(category: string): string {
     learning: '#ffb',
     task: '#fbf',
   };
-  return colors[category] || '#ddd';
+  return Object.hasOwn(colors, category) ? colors[category] : '#ddd';
 }
 
 // Export memories to JSON
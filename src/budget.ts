@@ -0,0 +1,110 @@
+import { formatMemoriesForDisplay } from './search.js';
+import type { Memory } from './types.js';
+
+/**
+ * Fit memories into a token budget for get_context. Memories are taken in
+ * order (high priority first); each is shown in full if it fits, otherwise as
+ * a short summary, otherwise listed as left out.
+ */
+export interface PackedContext {
+  text: string;
+  full: Memory[];       // Included in full
+  summarized: Memory[]; // Included as a summary
+  omitted: Memory[];    // Not included
+  tokens: number;       // Estimated tokens used
+}
+
+const SUMMARY_CHARS = 240;
+const MAX_OMITTED_LISTED = 10;
+const SEPARATOR = '\n\n---\n\n';
+
+/**
+ * Rough token estimate (about 4 characters per token for English and code)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Title, metadata and the start of the body
+ */
+export function formatMemorySummary(memory: Memory, maxChars: number = SUMMARY_CHARS): string {
+  const body = memory.content.replace(/^#+\s.*\n?/, '').replace(/\s+/g, ' ').trim();
+  let summary = body;
+  if (body.length > maxChars) {
+    const cut = body.slice(0, maxChars);
+    const lastSpace = cut.lastIndexOf(' ');
+    summary = `${lastSpace > maxChars / 2 ? cut.slice(0, lastSpace) : cut}…`;
+  }
+
+  const tagStr = memory.tags.length > 0 ? ` [${memory.tags.join(', ')}]` : '';
+  const priorityStr = memory.priority && memory.priority !== 'normal' ? ` **[${memory.priority.toUpperCase()}]**` : '';
+  return `## ${memory.title}${priorityStr} (summary)\n**Category:** ${memory.category}${tagStr}\n**ID:** ${memory.id}\n\n${summary}`;
+}
+
+function priorityRank(memory: Memory): number {
+  return memory.priority === 'high' ? 0 : memory.priority === 'low' ? 2 : 1;
+}
+
+/**
+ * Pack memories (most relevant first) into maxTokens
+ */
+export function packMemories(memories: Memory[], maxTokens: number): PackedContext {
+  // Stable sort keeps relevance order within each priority
+  const ordered = [...memories].sort((a, b) => priorityRank(a) - priorityRank(b));
+
+  const parts: string[] = [];
+  const packed: PackedContext = { text: '', full: [], summarized: [], omitted: [], tokens: 0 };
+
+  for (const memory of ordered) {
+    const separator = parts.length > 0 ? SEPARATOR : '';
+
+    const full = formatMemoriesForDisplay([memory]);
+    const fullTokens = estimateTokens(separator + full);
+    if (packed.tokens + fullTokens <= maxTokens) {
+      parts.push(full);
+      packed.full.push(memory);
+      packed.tokens += fullTokens;
+      continue;
+    }
+
+    const summary = formatMemorySummary(memory);
+    const summaryTokens = estimateTokens(separator + summary);
+    if (packed.tokens + summaryTokens <= maxTokens) {
+      parts.push(summary);
+      packed.summarized.push(memory);
+      packed.tokens += summaryTokens;
+      continue;
+    }
+
+    packed.omitted.push(memory);
+  }
+
+  packed.text = parts.join(SEPARATOR);
+  return packed;
+}
+
+/**
+ * Note on what was summarized or left out, and how to get it
+ */
+export function formatPackingNote(packed: PackedContext, maxTokens: number): string {
+  if (packed.summarized.length === 0 && packed.omitted.length === 0) {
+    return '';
+  }
+
+  const lines = [`Context budget: ~${packed.tokens} of ${maxTokens} tokens used.`];
+  if (packed.summarized.length > 0) {
+    lines.push(`${packed.summarized.length} shown as ${packed.summarized.length === 1 ? 'a summary' : 'summaries'}.`);
+  }
+  if (packed.omitted.length > 0) {
+    lines.push(`Left out (${packed.omitted.length}):`);
+    for (const memory of packed.omitted.slice(0, MAX_OMITTED_LISTED)) {
+      lines.push(`- ${memory.title} (ID: ${memory.id})`);
+    }
+    if (packed.omitted.length > MAX_OMITTED_LISTED) {
+      lines.push(`- ...and ${packed.omitted.length - MAX_OMITTED_LISTED} more`);
+    }
+  }
+  lines.push('Read memory://{id} or use recall with full: true to get the full text.');
+  return lines.join('\n');
+}
@@ -1,51 +1,70 @@
-import { listMemories, deleteMemory } from '../memory.js';
+import { listMemories, deleteMemory, emptyTrash } from '../memory.js';
 import { isExpired } from '../search.js';
 import type { Config, CommandResult } from '../types.js';
 
 export interface CleanupParams {
   dryRun?: boolean;
+  trashRetentionDays?: number;
 }
 
+// Trashed memories are kept this long before cleanup purges them
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
 export async function cleanup(
   config: Config,
   params: CleanupParams
 ): Promise<CommandResult> {
   const dryRun = params.dryRun || false;
+  const retentionDays = params.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS;
 
   try {
     const entries = await listMemories(config);
     const expiredEntries = entries.filter(isExpired);
+    const oldTrash = await emptyTrash(config, { olderThanDays: retentionDays, dryRun: true });
 
-    if (expiredEntries.length === 0) {
+    if (expiredEntries.length === 0 && oldTrash.length === 0) {
       return {
         success: true,
-        message: 'No expired memories found.',
+        message: `No expired memories found.\nNo trashed memories older than ${retentionDays} days.`,
       };
     }
 
     if (dryRun) {
-      const lines = ['Expired memories that would be deleted:', ''];
-      for (const entry of expiredEntries) {
-        lines.push(`- ${entry.title} (expired: ${entry.expiresAt})`);
+      const lines: string[] = [];
+      if (expiredEntries.length > 0) {
+        lines.push('Expired memories that would be moved to trash:', '');
+        for (const entry of expiredEntries) {
+          lines.push(`- ${entry.title} (expired: ${entry.expiresAt})`);
+        }
+        lines.push('', `Total: ${expiredEntries.length} memories`, '');
+      }
+      if (oldTrash.length > 0) {
+        lines.push(`Trashed memories older than ${retentionDays} days that would be permanently deleted:`, '');
+        for (const item of oldTrash) {
+          lines.push(`- ${item.title} (deleted: ${item.deletedAt})`);
+        }
+        lines.push('', `Total: ${oldTrash.length} memories`, '');
       }
-      lines.push('', `Total: ${expiredEntries.length} memories`);
-      lines.push('', 'Run without --dry-run to delete these memories.');
+      lines.push('Run without --dry-run to apply these changes.');
       return {
         success: true,
         message: lines.join('\n'),
       };
     }
 
-    // Delete expired memories
+    // Move expired memories to trash
     let deleted = 0;
     for (const entry of expiredEntries) {
       const success = await deleteMemory(config, entry.id);
       if (success) deleted++;
     }
 
+    // Purge trash past its retention period
+    const purged = await emptyTrash(config, { olderThanDays: retentionDays });
+
     return {
       success: true,
-      message: `Cleaned up ${deleted} expired memories.`,
+      message: `Cleaned up ${deleted} expired memories (moved to trash).\nPermanently deleted ${purged.length} trashed memories older than ${retentionDays} days.`,
     };
   } catch (error) {
     return {
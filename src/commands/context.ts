@@ -1,27 +1,47 @@
-import { searchMemories, recallRecent, formatMemoriesForDisplay } from '../search.js';
+import { searchMemories, recallRecent, formatMemoriesForDisplay, toSearchText } from '../search.js';
 import { detectProjectChange } from '../triggers.js';
-import { detectFilePatterns, getTagsFromPatterns } from '../triggers.js';
+import { recordAccess } from '../access.js';
+import { packMemories, estimateTokens, formatPackingNote } from '../budget.js';
+import { detectFilePatterns, detectDependencies, detectPatternsInPaths, getTagsFromPatterns } from '../triggers.js';
+import { getGitWorkingSet, extractWorkingSetKeywords } from '../working-set.js';
+import { detectProjectContext } from '../project.js';
 import type { Config, CommandResult } from '../types.js';
 
 export interface ContextParams {
   limit?: number;
   verbose?: boolean;
+  maxTokens?: number; // Pack as many relevant memories as fit in this budget
 }
 
+// With a token budget, look at more candidates than the default limit
+const BUDGET_CANDIDATES = 20;
+
 export async function context(
   config: Config,
   params: ContextParams
 ): Promise<CommandResult> {
-  const limit = params.limit || 5;
   const verbose = params.verbose || false;
 
   try {
+    // Defaults can come from the repository's .claude-memory.json
+    const { gitRoot, repoConfig } = await detectProjectContext();
+    const requestedTokens = params.maxTokens ?? repoConfig.context?.maxTokens;
+    const maxTokens = requestedTokens && requestedTokens > 0 ? requestedTokens : undefined;
+    const limit = params.limit || repoConfig.context?.limit || (maxTokens ? BUDGET_CANDIDATES : 5);
+
     // Detect project change
     const { changed, previous, current } = await detectProjectChange();
 
     // Detect file patterns in current directory
     const matchedPatterns = detectFilePatterns();
-    const patternTags = getTagsFromPatterns(matchedPatterns);
+    // Libraries declared in dependency manifests
+    const dependencies = detectDependencies();
+    const patternTags = getTagsFromPatterns([...matchedPatterns, ...dependencies]);
+
+    // What is being edited right now: changed files, branch and recent commits
+    const workingSet = await getGitWorkingSet(gitRoot || process.cwd());
+    const workingSetKeywords = extractWorkingSetKeywords(workingSet);
+    const workingSetTags = getTagsFromPatterns(detectPatternsInPaths(workingSet.changedFiles, gitRoot));
 
     // Build context message
     const lines: string[] = [];
@@ -51,39 +71,96 @@ export async function context(
       }
     }
 
+    // Detected dependencies (verbose mode)
+    if (verbose && dependencies.length > 0) {
+      lines.push('\nDetected dependencies:');
+      for (const dependency of dependencies) {
+        lines.push(
+          `  - ${dependency.name} in ${dependency.manifest} (tags: ${dependency.tags.join(', ')})`
+        );
+      }
+    }
+
+    // Working set (verbose mode)
+    if (verbose && (workingSet.branch || workingSet.changedFiles.length > 0)) {
+      lines.push('\nGit working set:');
+      if (workingSet.branch) {
+        lines.push(`  - Branch: ${workingSet.branch}`);
+      }
+      lines.push(`  - Changed files: ${workingSet.changedFiles.length}`);
+      if (workingSetKeywords.length > 0) {
+        lines.push(`  - Keywords: ${workingSetKeywords.join(', ')}`);
+      }
+    }
+
     lines.push('');
 
     // Recall memories based on context
-    let memories: Awaited<ReturnType<typeof recallRecent>> = [];
+    const memories: Awaited<ReturnType<typeof recallRecent>> = [];
+    const existingIds = new Set<string>();
+    const addMemories = (found: typeof memories) => {
+      for (const m of found) {
+        if (memories.length >= limit) break;
+        // Avoid duplicates
+        if (!existingIds.has(m.id)) {
+          existingIds.add(m.id);
+          memories.push(m);
+        }
+      }
+    };
+
+    // Memories about the subsystem being edited come first
+    const workingSetQuery = toSearchText([...workingSetKeywords, ...workingSetTags]);
+    if (workingSetQuery) {
+      const results = await searchMemories(config, workingSetQuery, {
+        limit,
+        includeFullContent: true,
+      });
+      addMemories(results.map((r) => r.memory).filter((m): m is NonNullable<typeof m> => m != null));
+    }
 
-    if (patternTags.length > 0) {
+    if (patternTags.length > 0 && memories.length < limit) {
       // Search with detected tags
-      const results = await searchMemories(config, patternTags.join(' '), {
+      const results = await searchMemories(config, toSearchText(patternTags), {
         limit,
         includeFullContent: true,
         tags: patternTags,
       });
-      memories = results
-        .map((r) => r.memory)
-        .filter((m): m is NonNullable<typeof m> => m != null);
+      addMemories(results.map((r) => r.memory).filter((m): m is NonNullable<typeof m> => m != null));
     }
 
-    // If no pattern-based results or not enough, supplement with recent project memories
+    // If not enough, supplement with recent project memories
     if (memories.length < limit) {
-      const recentMemories = await recallRecent(config, limit - memories.length);
-      // Avoid duplicates
-      const existingIds = new Set(memories.map((m) => m.id));
-      for (const m of recentMemories) {
-        if (!existingIds.has(m.id)) {
-          memories.push(m);
-        }
-      }
+      addMemories(await recallRecent(config, limit));
     }
 
     if (memories.length === 0) {
       lines.push('No relevant memories found for this context.');
+    } else if (maxTokens) {
+      // The header lines count against the budget too
+      const headerTokens = estimateTokens(lines.join('\n'));
+      const packed = packMemories(memories, maxTokens - headerTokens);
+      packed.tokens += headerTokens;
+      lines.push(packed.text || 'No memories fit in the token budget.');
+      const note = formatPackingNote(packed, maxTokens);
+      if (note) {
+        lines.push('', '---', '', note);
+      }
+      await recordAccess(config, [...packed.full, ...packed.summarized].map((m) => m.id));
+
+      return {
+        success: true,
+        message: lines.join('\n'),
+        data: {
+          memories: packed.full,
+          summarized: packed.summarized,
+          omitted: packed.omitted.map((m) => ({ id: m.id, title: m.title })),
+          tokens: packed.tokens,
+        },
+      };
     } else {
       lines.push(formatMemoriesForDisplay(memories));
+      await recordAccess(config, memories.map((m) => m.id));
     }
 
     return {
@@ -0,0 +1,77 @@
+import { listMemories, listMemoryVersions, getMemoryVersion } from '../memory.js';
+import { diffLines, formatDiff } from '../diff.js';
+import type { Config, Memory, CommandResult } from '../types.js';
+
+export interface DiffParams {
+  id: string;
+  from?: number;
+  to?: number;
+}
+
+// Render the parts of a version that a diff should cover
+function describeVersion(memory: Memory): string {
+  const tagStr = memory.tags.length > 0 ? memory.tags.join(', ') : '(none)';
+  return `Tags: ${tagStr}\n\n${memory.content}`;
+}
+
+export async function diff(
+  config: Config,
+  params: DiffParams
+): Promise<CommandResult> {
+  try {
+    // Support partial ID
+    const entries = await listMemories(config);
+    const match = entries.find(
+      (e) => e.id === params.id || e.id.startsWith(params.id)
+    );
+
+    if (!match) {
+      return {
+        success: false,
+        message: `No memory found with ID starting with "${params.id}"`,
+      };
+    }
+
+    const versions = await listMemoryVersions(config, match.id);
+    const current = versions[versions.length - 1].version;
+
+    // Default: previous version vs current
+    const to = params.to ?? current;
+    const from = params.from ?? to - 1;
+
+    if (from < 1) {
+      return {
+        success: false,
+        message: `Memory "${match.title}" has no earlier version to compare.`,
+      };
+    }
+
+    const before = await getMemoryVersion(config, match.id, from);
+    const after = await getMemoryVersion(config, match.id, to);
+
+    if (!before || !after) {
+      return {
+        success: false,
+        message: `Unknown version: ${!before ? from : to}. Versions available: 1-${current}`,
+      };
+    }
+
+    const lines = diffLines(describeVersion(before), describeVersion(after));
+    const hasChanges = lines.some((line) => line.type !== 'same');
+
+    return {
+      success: true,
+      message: hasChanges
+        ? `## Diff: ${match.title} (v${from} -> v${to})\n\n\`\`\`diff\n${formatDiff(lines)}\n\`\`\``
+        : `No differences between v${from} and v${to}.`,
+      data: lines,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: `Failed to diff versions: ${
+        error instanceof Error ? error.message : 'Unknown error'
+      }`,
+    };
+  }
+}
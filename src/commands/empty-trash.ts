@@ -0,0 +1,57 @@
+import { emptyTrash as purgeTrash } from '../memory.js';
+import type { Config, CommandResult } from '../types.js';
+
+export interface EmptyTrashParams {
+  olderThanDays?: number;
+  dryRun?: boolean;
+}
+
+export async function emptyTrash(
+  config: Config,
+  params: EmptyTrashParams
+): Promise<CommandResult> {
+  const dryRun = params.dryRun || false;
+
+  try {
+    const purged = await purgeTrash(config, {
+      olderThanDays: params.olderThanDays,
+      dryRun,
+    });
+
+    if (purged.length === 0) {
+      return {
+        success: true,
+        message: params.olderThanDays !== undefined
+          ? `No trashed memories older than ${params.olderThanDays} days.`
+          : 'Trash is already empty.',
+      };
+    }
+
+    if (dryRun) {
+      const lines = ['Trashed memories that would be permanently deleted:', ''];
+      for (const item of purged) {
+        lines.push(`- ${item.title} (deleted: ${item.deletedAt})`);
+      }
+      lines.push('', `Total: ${purged.length} memories`);
+      lines.push('', 'Run without dryRun to delete these permanently.');
+      return {
+        success: true,
+        message: lines.join('\n'),
+        data: purged,
+      };
+    }
+
+    return {
+      success: true,
+      message: `Permanently deleted ${purged.length} trashed memories.`,
+      data: purged,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: `Failed to empty trash: ${
+        error instanceof Error ? error.message : 'Unknown error'
+      }`,
+    };
+  }
+}
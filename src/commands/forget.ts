@@ -28,7 +28,7 @@ export async function forget(
     if (deleted) {
       return {
         success: true,
-        message: `Memory "${match.title}" has been forgotten.`,
+        message: `Memory "${match.title}" has been forgotten (moved to trash - use restore to undo).`,
       };
     } else {
       return {
@@ -0,0 +1,51 @@
+import { listMemories, listMemoryVersions } from '../memory.js';
+import type { Config, CommandResult } from '../types.js';
+
+export interface HistoryParams {
+  id: string;
+}
+
+export async function history(
+  config: Config,
+  params: HistoryParams
+): Promise<CommandResult> {
+  try {
+    // Support partial ID
+    const entries = await listMemories(config);
+    const match = entries.find(
+      (e) => e.id === params.id || e.id.startsWith(params.id)
+    );
+
+    if (!match) {
+      return {
+        success: false,
+        message: `No memory found with ID starting with "${params.id}"`,
+      };
+    }
+
+    const versions = await listMemoryVersions(config, match.id);
+
+    const lines = [`## History: ${match.title}`, `ID: ${match.id}`, ''];
+    for (const version of [...versions].reverse()) {
+      const currentStr = version.current ? ' (current)' : '';
+      lines.push(`- v${version.version}${currentStr} | ${version.updated} | ${version.title}`);
+    }
+
+    if (versions.length > 1) {
+      lines.push('', 'Use diff to compare versions or revert to bring one back.');
+    }
+
+    return {
+      success: true,
+      message: lines.join('\n'),
+      data: versions,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: `Failed to get history: ${
+        error instanceof Error ? error.message : 'Unknown error'
+      }`,
+    };
+  }
+}
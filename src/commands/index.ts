@@ -6,3 +6,13 @@ export * from './update.js';
 export * from './context.js';
 export * from './cleanup.js';
 export * from './status.js';
+export * from './rebuild.js';
+export * from './resolve.js';
+export * from './restore.js';
+export * from './empty-trash.js';
+export * from './history.js';
+export * from './diff.js';
+export * from './revert.js';
+export * from './repair.js';
+export * from './patterns.js';
+export * from './projects.js';
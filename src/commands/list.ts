@@ -1,14 +1,20 @@
 import { listMemories } from '../memory.js';
 import { formatIndexForDisplay } from '../search.js';
 import { detectProjectContext } from '../project.js';
+import { resolveProjectIds } from '../aliases.js';
+import { paginate, cursorScope, computeFacets, formatFacets, formatPageFooter } from '../pagination.js';
 import type { Config, MemoryCategory, CommandResult } from '../types.js';
 
 export interface ListParams {
   category?: MemoryCategory;
   project?: string;
   projectOnly?: boolean;
+  limit?: number;  // Page size (default: 50)
+  cursor?: string; // nextCursor from the previous page
 }
 
+const DEFAULT_PAGE_SIZE = 50;
+
 export async function list(
   config: Config,
   params: ListParams
@@ -20,22 +26,42 @@ export async function list(
     if (params.projectOnly) {
       const context = await detectProjectContext();
       if (context.projectId) {
-        entries = entries.filter((e) => e.projectId === context.projectId);
+        const projectIds = await resolveProjectIds(config, context.projectId, context.aliases);
+        entries = entries.filter((e) => !!e.projectId && projectIds.includes(e.projectId));
       } else {
         // No project context - show only global
         entries = entries.filter((e) => !e.projectId);
       }
     }
 
-    // Filter by specific project ID if provided
+    // Filter by specific project ID (and its aliases) if provided
     if (params.project) {
-      entries = entries.filter((e) => e.projectId === params.project);
+      const projectIds = await resolveProjectIds(config, params.project);
+      entries = entries.filter((e) => !!e.projectId && projectIds.includes(e.projectId));
+    }
+
+    // Oldest first, as memories were added
+    const page = paginate(
+      entries,
+      (e) => [e.created, e.id],
+      (a, b) => String(a[0]).localeCompare(String(b[0])) || String(a[1]).localeCompare(String(b[1])),
+      {
+        cursor: params.cursor,
+        limit: params.limit || DEFAULT_PAGE_SIZE,
+        scope: cursorScope({ category: params.category, project: params.project, projectOnly: params.projectOnly }),
+      }
+    );
+    const facets = computeFacets(entries);
+
+    let message = formatIndexForDisplay(page.items);
+    if (page.total > page.items.length) {
+      message += `\n\n---\n\n${formatPageFooter(page)}\nMatches by:\n${formatFacets(facets)}`;
     }
 
     return {
       success: true,
-      message: formatIndexForDisplay(entries),
-      data: entries,
+      message,
+      data: { entries: page.items, total: page.total, nextCursor: page.nextCursor, facets },
     };
   } catch (error) {
     return {
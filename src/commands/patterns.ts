@@ -0,0 +1,255 @@
+import {
+  getDefaultPatterns,
+  getCustomPatterns,
+  getRepoPatterns,
+  getPatternMappings,
+  saveCustomPatterns,
+  getProjectFiles,
+  detectDependencies,
+  getTagsFromPatterns,
+} from '../triggers.js';
+import type { FilePatternMapping } from '../triggers.js';
+import { matchesGlob, validateGlob } from '../glob.js';
+import { searchMemories, toSearchText } from '../search.js';
+import { REPO_CONFIG_FILE } from '../repo-config.js';
+import type { Config, CommandResult } from '../types.js';
+
+export interface AddPatternParams {
+  pattern: string;
+  tags: string[];
+  category?: string;
+  description?: string;
+}
+
+export interface RemovePatternParams {
+  pattern: string; // Pattern or description of a custom mapping
+}
+
+export interface TestPatternsParams {
+  directory?: string;
+  pattern?: string; // Try a pattern before adding it
+  limit?: number;   // Memories to show
+}
+
+// Example files shown per matched pattern
+const MAX_EXAMPLE_FILES = 3;
+
+function formatMapping(mapping: FilePatternMapping): string {
+  const categoryStr = mapping.category ? `, category: ${mapping.category}` : '';
+  return `- \`${mapping.pattern}\` - ${mapping.description} (tags: ${mapping.tags.join(', ')}${categoryStr})`;
+}
+
+export async function listPatterns(): Promise<CommandResult> {
+  const defaults = getDefaultPatterns();
+  const custom = getCustomPatterns();
+  const repo = getRepoPatterns();
+
+  const lines = [`Built-in patterns (${defaults.length}):`, ...defaults.map(formatMapping), ''];
+  if (custom.length > 0) {
+    lines.push(`Custom patterns (${custom.length}):`, ...custom.map(formatMapping));
+  } else {
+    lines.push('No custom patterns. Use add_pattern to add one.');
+  }
+  if (repo.length > 0) {
+    lines.push('', `Repository patterns from ${REPO_CONFIG_FILE} (${repo.length}):`, ...repo.map(formatMapping));
+  }
+
+  return {
+    success: true,
+    message: lines.join('\n'),
+    data: { defaults, custom, repo },
+  };
+}
+
+export async function addPattern(params: AddPatternParams): Promise<CommandResult> {
+  const pattern = params.pattern?.trim() || '';
+  const syntaxError = validateGlob(pattern);
+  if (syntaxError) {
+    return {
+      success: false,
+      message: `Invalid pattern "${pattern}": ${syntaxError}`,
+    };
+  }
+
+  const tags = [...new Set((params.tags || []).map((t) => t.trim()).filter(Boolean))];
+  if (tags.length === 0) {
+    return {
+      success: false,
+      message: 'At least one tag is required.',
+    };
+  }
+
+  const description = params.description?.trim() || `Custom: ${pattern}`;
+  const existing = getPatternMappings();
+  const custom = getCustomPatterns();
+
+  // The same glob as a custom pattern would apply twice
+  const samePattern = custom.find((m) => m.pattern === pattern);
+  if (samePattern) {
+    return {
+      success: false,
+      message: `A custom pattern for "${pattern}" already exists (tags: ${samePattern.tags.join(', ')}). Remove it with remove_pattern first to change it.`,
+    };
+  }
+
+  // A built-in pattern with the same glob and all the tags adds nothing
+  const builtIn = getDefaultPatterns().find((m) => m.pattern === pattern);
+  if (builtIn && tags.every((t) => builtIn.tags.includes(t))) {
+    return {
+      success: false,
+      message: `"${pattern}" is already a built-in pattern with these tags (${builtIn.tags.join(', ')}).`,
+    };
+  }
+
+  // Matches are deduplicated by description, so it must be unique
+  if (existing.some((m) => m.description === description)) {
+    return {
+      success: false,
+      message: `A pattern with the description "${description}" already exists. Choose another description.`,
+    };
+  }
+
+  const mapping: FilePatternMapping = { pattern, tags, description };
+  if (params.category) {
+    mapping.category = params.category;
+  }
+  saveCustomPatterns([...custom, mapping]);
+
+  return {
+    success: true,
+    message: `Pattern added:\n${formatMapping(mapping)}`,
+    data: mapping,
+  };
+}
+
+export async function removePattern(params: RemovePatternParams): Promise<CommandResult> {
+  const target = params.pattern?.trim() || '';
+  const custom = getCustomPatterns();
+  const match = custom.find((m) => m.pattern === target) || custom.find((m) => m.description === target);
+
+  if (!match) {
+    const builtIn = getDefaultPatterns().some((m) => m.pattern === target || m.description === target);
+    return {
+      success: false,
+      message: builtIn
+        ? `"${target}" is a built-in pattern and can't be removed.`
+        : `No custom pattern found for "${target}". Use list_patterns to see them.`,
+    };
+  }
+
+  saveCustomPatterns(custom.filter((m) => m !== match));
+
+  return {
+    success: true,
+    message: `Pattern removed:\n${formatMapping(match)}`,
+    data: match,
+  };
+}
+
+export async function testPatterns(
+  config: Config,
+  params: TestPatternsParams
+): Promise<CommandResult> {
+  const limit = params.limit || 5;
+
+  try {
+    const { root, files } = getProjectFiles(params.directory);
+    const lines = [`Scanned ${files.length} files under ${root}`, ''];
+
+    // A candidate pattern: just show what it would match
+    if (params.pattern) {
+      const syntaxError = validateGlob(params.pattern);
+      if (syntaxError) {
+        return {
+          success: false,
+          message: `Invalid pattern "${params.pattern}": ${syntaxError}`,
+        };
+      }
+      const matched = files.filter((f) => matchesGlob(f, params.pattern!));
+      lines.push(`\`${params.pattern}\` matches ${matched.length} file${matched.length === 1 ? '' : 's'}`);
+      for (const file of matched.slice(0, 10)) {
+        lines.push(`  - ${file}`);
+      }
+      if (matched.length > 10) {
+        lines.push(`  - ...and ${matched.length - 10} more`);
+      }
+      return {
+        success: true,
+        message: lines.join('\n'),
+        data: { root, files: matched },
+      };
+    }
+
+    const matches: Array<{ mapping: FilePatternMapping; files: string[] }> = [];
+    const seenDescriptions = new Set<string>();
+    for (const mapping of getPatternMappings(root)) {
+      if (seenDescriptions.has(mapping.description)) continue;
+      const matched = files.filter((f) => matchesGlob(f, mapping.pattern));
+      if (matched.length > 0) {
+        matches.push({ mapping, files: matched });
+        seenDescriptions.add(mapping.description);
+      }
+    }
+    const dependencies = detectDependencies(params.directory);
+
+    if (matches.length === 0 && dependencies.length === 0) {
+      lines.push('No patterns or dependencies matched.');
+      return {
+        success: true,
+        message: lines.join('\n'),
+        data: { root, patterns: [], dependencies: [], tags: [], memories: [] },
+      };
+    }
+
+    if (matches.length > 0) {
+      lines.push('Matched patterns:');
+      for (const { mapping, files: matched } of matches) {
+        lines.push(formatMapping(mapping));
+        const more = matched.length > MAX_EXAMPLE_FILES ? ` (+${matched.length - MAX_EXAMPLE_FILES} more)` : '';
+        lines.push(`  e.g. ${matched.slice(0, MAX_EXAMPLE_FILES).join(', ')}${more}`);
+      }
+      lines.push('');
+    }
+
+    if (dependencies.length > 0) {
+      lines.push('Detected dependencies:');
+      for (const dependency of dependencies) {
+        lines.push(`- ${dependency.name} in ${dependency.manifest} (tags: ${dependency.tags.join(', ')})`);
+      }
+      lines.push('');
+    }
+
+    // The same search get_context runs for these tags
+    const tags = getTagsFromPatterns([...matches.map((m) => m.mapping), ...dependencies]);
+    const results = await searchMemories(config, toSearchText(tags), { limit, tags });
+
+    lines.push(`Tags: ${tags.join(', ')}`, '');
+    if (results.length === 0) {
+      lines.push('No memories would be surfaced for these tags.');
+    } else {
+      lines.push(`Memories that would be surfaced (${results.length}):`);
+      for (const { entry } of results) {
+        lines.push(`- ${entry.title} [${entry.category}] (ID: ${entry.id.substring(0, 8)}...)`);
+      }
+    }
+
+    return {
+      success: true,
+      message: lines.join('\n'),
+      data: {
+        root,
+        patterns: matches.map((m) => ({ ...m.mapping, files: m.files })),
+        dependencies,
+        tags,
+        memories: results.map((r) => r.entry),
+      },
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: `Failed to test patterns: ${
+        error instanceof Error ? error.message : 'Unknown error'
+      }`,
+    };
+  }
+}
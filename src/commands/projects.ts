@@ -0,0 +1,195 @@
+import { migrateProjectMemories } from '../memory.js';
+import { detectProjectContext, normalizeGitUrl, extractProjectName } from '../project.js';
+import {
+  loadProjectAliases,
+  saveProjectAliases,
+  addProjectAlias,
+  removeProjectAlias,
+  getProjectGroup,
+} from '../aliases.js';
+import { withIndexLock } from '../storage.js';
+import type { Config, CommandResult } from '../types.js';
+
+export interface MigrateProjectParams {
+  from: string;        // Old project ID or remote URL
+  to?: string;         // New project ID or remote URL (default: current project)
+  name?: string;       // New project name (default: derived from the new ID)
+  dryRun?: boolean;
+  keepAlias?: boolean; // Register the old ID as an alias of the new one (default: true)
+}
+
+export interface ProjectAliasesParams {
+  action?: 'list' | 'add' | 'remove';
+  projectId?: string; // Project to add the alias to (default: current project)
+  alias?: string;     // Project ID or remote URL to add or remove
+}
+
+// Moved memories listed in the response
+const MAX_LISTED = 10;
+
+async function registerAlias(config: Config, projectId: string, alias: string): Promise<void> {
+  await withIndexLock(config, async () => {
+    const map = await loadProjectAliases(config);
+    await saveProjectAliases(config, addProjectAlias(map, projectId, alias));
+  });
+}
+
+export async function migrateProject(
+  config: Config,
+  params: MigrateProjectParams
+): Promise<CommandResult> {
+  try {
+    if (!params.from) {
+      return {
+        success: false,
+        message: 'from is required (the old project ID or remote URL)',
+      };
+    }
+
+    const current = await detectProjectContext();
+    const from = normalizeGitUrl(params.from);
+    const to = params.to ? normalizeGitUrl(params.to) : current.projectId;
+
+    if (!to) {
+      return {
+        success: false,
+        message: 'No current project detected. Set to to the new project ID or remote URL.',
+      };
+    }
+    if (from === to) {
+      return {
+        success: false,
+        message: `Nothing to migrate: from and to are both "${to}".`,
+      };
+    }
+
+    const name = params.name || (to === current.projectId && current.projectName) || extractProjectName(to);
+    const moved = await migrateProjectMemories(config, from, to, name, params.dryRun);
+
+    const keepAlias = params.keepAlias !== false;
+    if (keepAlias && !params.dryRun) {
+      await registerAlias(config, to, from);
+    }
+
+    const verb = params.dryRun ? 'Would move' : 'Moved';
+    const lines = [
+      moved.length > 0
+        ? `${verb} ${moved.length} ${moved.length === 1 ? 'memory' : 'memories'} from ${from} to ${to} (${name}):`
+        : `No memories found under ${from}.`,
+    ];
+    for (const entry of moved.slice(0, MAX_LISTED)) {
+      lines.push(`- ${entry.title} [${entry.category}] (ID: ${entry.id.substring(0, 8)}...)`);
+    }
+    if (moved.length > MAX_LISTED) {
+      lines.push(`- ...and ${moved.length - MAX_LISTED} more`);
+    }
+    if (keepAlias) {
+      lines.push(
+        '',
+        `${params.dryRun ? 'Would register' : 'Registered'} ${from} as an alias of ${to}, so memories still stored under the old ID (e.g. from other machines) belong to the same project.`
+      );
+    }
+    if (params.dryRun) {
+      lines.push('', 'Dry run - nothing changed. Run again with dryRun: false to migrate.');
+    }
+
+    return {
+      success: true,
+      message: lines.join('\n'),
+      data: { from, to, name, moved: moved.map((e) => e.id), dryRun: !!params.dryRun },
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: `Failed to migrate project: ${
+        error instanceof Error ? error.message : 'Unknown error'
+      }`,
+    };
+  }
+}
+
+export async function projectAliases(
+  config: Config,
+  params: ProjectAliasesParams
+): Promise<CommandResult> {
+  const action = params.action || 'list';
+
+  try {
+    if (action === 'list') {
+      const map = await loadProjectAliases(config);
+      const current = await detectProjectContext();
+      const lines: string[] = [];
+
+      const groups = Object.entries(map).filter(([, aliases]) => aliases.length > 0);
+      if (groups.length === 0) {
+        lines.push('No project aliases registered. Use action "add" or migrate_project to add one.');
+      } else {
+        lines.push(`Project aliases (${groups.length}):`);
+        for (const [canonical, aliases] of groups) {
+          lines.push(`- ${canonical}`, ...aliases.map((a) => `    ← ${a}`));
+        }
+      }
+
+      if (current.projectId) {
+        const group = getProjectGroup(map, current.projectId);
+        const all = [...new Set([...group, ...current.aliases])].filter((id) => id !== current.projectId);
+        lines.push('', `Current project: ${current.projectId}`);
+        lines.push(all.length > 0 ? `Also includes: ${all.join(', ')}` : 'No aliases apply to the current project.');
+      }
+
+      return {
+        success: true,
+        message: lines.join('\n'),
+        data: map,
+      };
+    }
+
+    if (!params.alias) {
+      return {
+        success: false,
+        message: `alias is required for action "${action}"`,
+      };
+    }
+    const alias = normalizeGitUrl(params.alias);
+
+    if (action === 'remove') {
+      const removed = await withIndexLock(config, async () => {
+        const map = removeProjectAlias(await loadProjectAliases(config), alias);
+        if (map) {
+          await saveProjectAliases(config, map);
+        }
+        return map !== null;
+      });
+      return removed
+        ? { success: true, message: `Removed alias ${alias}.` }
+        : { success: false, message: `${alias} is not registered as an alias.` };
+    }
+
+    const projectId = params.projectId ? normalizeGitUrl(params.projectId) : (await detectProjectContext()).projectId;
+    if (!projectId) {
+      return {
+        success: false,
+        message: 'No current project detected. Set projectId to the project to add the alias to.',
+      };
+    }
+    if (projectId === alias) {
+      return {
+        success: false,
+        message: 'A project cannot be an alias of itself.',
+      };
+    }
+
+    await registerAlias(config, projectId, alias);
+    return {
+      success: true,
+      message: `${alias} is now an alias of ${projectId}. Memories under either ID are recalled together.`,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: `Failed to update project aliases: ${
+        error instanceof Error ? error.message : 'Unknown error'
+      }`,
+    };
+  }
+}
@@ -0,0 +1,72 @@
+import { rebuildIndex } from '../memory.js';
+import type { Config, CommandResult } from '../types.js';
+
+export interface RebuildParams {
+  dryRun?: boolean;
+}
+
+export async function rebuild(
+  config: Config,
+  params: RebuildParams
+): Promise<CommandResult> {
+  const dryRun = params.dryRun || false;
+
+  try {
+    const report = await rebuildIndex(config, { dryRun });
+
+    const lines = [
+      dryRun
+        ? `Index rebuild preview: ${report.total} memories found on disk.`
+        : `Index rebuilt: ${report.total} memories.`,
+    ];
+
+    if (report.previousIndexCorrupt) {
+      lines.push('Previous index.json was missing or unreadable.');
+    }
+
+    if (report.recovered.length > 0) {
+      lines.push('', `Recovered (${report.recovered.length}) - files not in the old index:`);
+      for (const item of report.recovered) {
+        lines.push(`- ${item.title} (${item.path})`);
+      }
+    }
+
+    if (report.orphaned.length > 0) {
+      lines.push('', `Orphaned (${report.orphaned.length}) - index entries with no file, dropped:`);
+      for (const item of report.orphaned) {
+        lines.push(`- ${item.title} (${item.path})`);
+      }
+    }
+
+    if (report.duplicates.length > 0) {
+      lines.push('', `Duplicates (${report.duplicates.length}) - same ID in several files, newest kept:`);
+      for (const dup of report.duplicates) {
+        lines.push(`- ${dup.id.substring(0, 8)}...: kept ${dup.kept}, ignored ${dup.discarded.join(', ')}`);
+      }
+    }
+
+    if (report.unparseable.length > 0) {
+      lines.push('', `Unparseable (${report.unparseable.length}) - missing or invalid frontmatter:`);
+      for (const file of report.unparseable) {
+        lines.push(`- ${file}`);
+      }
+    }
+
+    if (dryRun) {
+      lines.push('', 'Run without dryRun to write the rebuilt index.');
+    }
+
+    return {
+      success: true,
+      message: lines.join('\n'),
+      data: report,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: `Failed to rebuild index: ${
+        error instanceof Error ? error.message : 'Unknown error'
+      }`,
+    };
+  }
+}
@@ -1,10 +1,13 @@
 import {
-  searchMemories,
-  recallByCategory,
-  recallRecent,
+  searchMemoriesPage,
   formatMemoriesForDisplay,
   type ProjectFilterOptions,
+  type SearchMode,
 } from '../search.js';
+import { QuerySyntaxError } from '../query.js';
+import { formatFacets, formatPageFooter } from '../pagination.js';
+import { formatScoreBreakdown } from '../ranking.js';
+import { recordAccess } from '../access.js';
 import { detectProjectContext } from '../project.js';
 import type { Config, MemoryCategory, CommandResult } from '../types.js';
 
@@ -14,6 +17,11 @@ export interface RecallParams {
   limit?: number;
   global?: boolean;
   all?: boolean;
+  mode?: SearchMode;
+  cursor?: string; // nextCursor from the previous page
+  full?: boolean;   // Return whole bodies instead of matching excerpts
+  maxChars?: number; // Excerpt length per result (default: 600)
+  explain?: boolean; // Show how each score was calculated
 }
 
 export async function recall(
@@ -23,7 +31,7 @@ export async function recall(
   const query = params.query || '';
   const limit = params.limit || 10;
 
-  // Project filtering options
+  // Project filtering options (a project: clause in the query overrides these)
   const projectOptions: ProjectFilterOptions = {
     allProjects: params.all === true,
     includeGlobal: params.global !== false,
@@ -31,40 +39,33 @@ export async function recall(
 
   // If --global flag is set, show only global memories
   if (params.global === true) {
-    projectOptions.allProjects = true;
+    projectOptions.projectId = null;
     projectOptions.includeGlobal = true;
   }
 
   try {
-    let memories;
-
-    if (!query && !params.category) {
-      // No query, return recent memories
-      memories = await recallRecent(config, limit, projectOptions);
-    } else if (params.category && !query) {
-      // Category only, return all in category
-      memories = await recallByCategory(
-        config,
-        params.category,
-        limit,
-        projectOptions
-      );
-    } else {
-      // Search with query
-      const results = await searchMemories(config, query, {
-        category: params.category,
-        limit,
-        includeFullContent: true,
-        ...projectOptions,
-      });
-      memories = results
-        .map((r) => r.memory)
-        .filter((m): m is NonNullable<typeof m> => m != null);
-    }
+    // Filters and free text are both handled by the query; with no text the
+    // matching memories come back by priority, then most recent first
+    const page = await searchMemoriesPage(config, query, {
+      category: params.category,
+      limit,
+      includeFullContent: true,
+      mode: params.mode,
+      cursor: params.cursor,
+      ...projectOptions,
+    });
+    const memories = page.items
+      .map((r) => r.memory)
+      .filter((m): m is NonNullable<typeof m> => m != null);
+    const data = {
+      memories,
+      total: page.total,
+      nextCursor: page.nextCursor,
+      facets: page.facets,
+    };
 
-    // If --global flag is set, filter to only global memories
-    if (params.global === true) {
-      memories = memories.filter((m) => !m.projectId);
+    if (memories.length === 0 && page.total > 0) {
+      return { success: true, message: formatPageFooter(page), data };
     }
 
     if (memories.length === 0) {
@@ -77,16 +78,34 @@ export async function recall(
       return {
         success: true,
         message: `No memories found matching your query.${scopeHint}`,
-        data: [],
+        data,
       };
     }
 
+    await recordAccess(config, memories.map((m) => m.id));
+
+    const scores = params.explain
+      ? new Map(page.items.filter((r) => r.breakdown).map((r) => [r.entry.id, formatScoreBreakdown(r.breakdown!)]))
+      : undefined;
+    let message = formatMemoriesForDisplay(memories, {
+      excerpt: params.full ? undefined : { terms: page.terms, maxChars: params.maxChars },
+      scores,
+    });
+
+    // With more than one page, show how the matches break down so the query can be narrowed
+    if (page.total > memories.length) {
+      message += `\n\n---\n\n${formatPageFooter(page)}\nMatches by:\n${formatFacets(page.facets)}`;
+    }
+
     return {
       success: true,
-      message: formatMemoriesForDisplay(memories),
-      data: memories,
+      message,
+      data,
     };
   } catch (error) {
+    if (error instanceof QuerySyntaxError) {
+      return { success: false, message: error.message };
+    }
     return {
       success: false,
       message: `Failed to recall memories: ${
@@ -1,13 +1,19 @@
 import { createMemory } from '../memory.js';
-import type { Config, MemoryCategory, MemoryPriority, CommandResult } from '../types.js';
+import { findSimilarMemories } from '../search.js';
+import type { SearchResult } from '../search.js';
+import { detectProjectContext } from '../project.js';
+import type { Config, MemoryCategory, MemoryPriority, MemoryScope, CommandResult } from '../types.js';
 
 export interface RememberParams {
-  category: MemoryCategory;
+  category?: MemoryCategory; // Defaults to defaultCategory from .claude-memory.json
   content: string;
   tags?: string[];
-  global?: boolean;
+  scope?: MemoryScope; // project (default), org (every repo of the organization) or global
+  global?: boolean;    // Same as scope: global
+  repoWide?: boolean; // In a monorepo package, apply to the whole repo instead of the current sub-path
   priority?: MemoryPriority;
   ttl?: string;
+  force?: boolean; // Store even if a similar memory already exists
 }
 
 export async function remember(
@@ -22,6 +28,14 @@ export async function remember(
     };
   }
 
+  // Validate scope if provided
+  if (params.scope && !['project', 'org', 'global'].includes(params.scope)) {
+    return {
+      success: false,
+      message: 'Invalid scope. Use: project, org, or global',
+    };
+  }
+
   // Validate TTL format if provided
   if (params.ttl && !/^\d+[dDwWmMyY]$/.test(params.ttl)) {
     return {
@@ -31,21 +45,76 @@ export async function remember(
   }
 
   try {
+    const { projectId: currentProjectId, orgId: currentOrgId, repoConfig } = await detectProjectContext();
+    const scope = params.scope || (params.global ? 'global' : 'project');
+    if (scope === 'org' && !currentOrgId) {
+      return {
+        success: false,
+        message: 'No organization detected: scope "org" needs a repository with a hosted remote (e.g. github.com/our-org/repo)',
+      };
+    }
+
+    // Category and tag defaults from the repository's .claude-memory.json
+    const category = params.category || repoConfig.defaultCategory;
+    if (!category) {
+      return {
+        success: false,
+        message: 'Category is required (or set "defaultCategory" in .claude-memory.json)',
+      };
+    }
+    const tags = scope === 'project'
+      ? [...new Set([...(params.tags || []), ...(repoConfig.defaultTags || [])])]
+      : params.tags || [];
+
+    // Look for likely duplicates in the same scope before writing
+    if (!params.force) {
+      let duplicates: SearchResult[] = [];
+      try {
+        duplicates = await findSimilarMemories(config, params.content, {
+          projectId: scope === 'project' ? currentProjectId : null,
+          orgId: scope === 'org' ? currentOrgId : null,
+          tags,
+        });
+      } catch (error) {
+        // The check is advisory: if it fails, store the memory anyway
+        console.error(`Duplicate check failed: ${error instanceof Error ? error.message : error}`);
+      }
+
+      if (duplicates.length > 0) {
+        const lines = duplicates.map(
+          ({ entry, score }) =>
+            `- ${entry.title} (${Math.round(score * 100)}% similar)\n  ID: ${entry.id}${entry.snippet ? `\n  ${entry.snippet}` : ''}`
+        );
+        const [best] = duplicates;
+        return {
+          success: false,
+          message:
+            `Not stored: similar ${duplicates.length === 1 ? 'memory already exists' : 'memories already exist'}:\n${lines.join('\n')}\n\n` +
+            `Options:\n` +
+            `- update the existing memory: update with id "${best.entry.id}"\n` +
+            `- store anyway and combine: remember with force: true, then merge_memories\n` +
+            `- store as a separate memory: remember with force: true`,
+          data: duplicates.map((d) => ({ ...d.entry, similarity: d.score })),
+        };
+      }
+    }
+
     const memory = await createMemory(
       config,
-      params.category,
+      category,
       params.content,
-      params.tags || [],
+      tags,
       {
-        global: params.global,
+        scope,
+        repoWide: params.repoWide,
         priority: params.priority,
         ttl: params.ttl,
       }
     );
 
     const scopeInfo = memory.projectName
-      ? `Project: ${memory.projectName}`
-      : 'Scope: global';
+      ? `Project: ${memory.projectName}${memory.subPath ? `\nSub-path: ${memory.subPath}` : ''}`
+      : memory.orgId ? `Scope: organization (${memory.orgId})` : 'Scope: global';
     const priorityInfo =
       memory.priority && memory.priority !== 'normal'
         ? `\nPriority: ${memory.priority}`
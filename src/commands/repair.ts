@@ -0,0 +1,60 @@
+import { repairPathCollisions } from '../memory.js';
+import type { Config, CommandResult } from '../types.js';
+
+export interface RepairCollisionsParams {
+  dryRun?: boolean;
+}
+
+const SOURCE_LABELS = {
+  file: 'another copy of the file',
+  history: 'version history',
+  trash: 'trash',
+  snippet: 'index snippet only (full content lost)',
+};
+
+export async function repairCollisions(
+  config: Config,
+  params: RepairCollisionsParams
+): Promise<CommandResult> {
+  const dryRun = params.dryRun || false;
+
+  try {
+    const report = await repairPathCollisions(config, { dryRun });
+
+    if (report.sharedPaths.length === 0) {
+      return {
+        success: true,
+        message: 'No memories share a file path. Nothing to repair.',
+        data: report,
+      };
+    }
+
+    const lines = [
+      `Found ${report.sharedPaths.length} file paths shared by more than one memory.`,
+      '',
+      dryRun ? 'Memories that would be moved to their own file:' : 'Memories moved to their own file:',
+    ];
+    for (const item of report.repaired) {
+      lines.push(`- ${item.title}`);
+      lines.push(`  ${item.oldPath} -> ${item.newPath}`);
+      lines.push(`  Recovered from: ${SOURCE_LABELS[item.source]}`);
+    }
+
+    if (dryRun) {
+      lines.push('', 'Run without dryRun to apply the repair.');
+    }
+
+    return {
+      success: true,
+      message: lines.join('\n'),
+      data: report,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: `Failed to repair collisions: ${
+        error instanceof Error ? error.message : 'Unknown error'
+      }`,
+    };
+  }
+}
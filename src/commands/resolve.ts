@@ -0,0 +1,101 @@
+import {
+  mergeIndexConflicts,
+  listMemoryConflicts,
+  resolveMemoryConflict,
+} from '../conflicts.js';
+import type { Config, CommandResult } from '../types.js';
+
+export interface ResolveConflictsParams {
+  path?: string;
+  keep?: 'original' | 'copy';
+  dryRun?: boolean;
+}
+
+export async function resolveConflicts(
+  config: Config,
+  params: ResolveConflictsParams
+): Promise<CommandResult> {
+  try {
+    // Resolve a single memory file conflict
+    if (params.path) {
+      if (params.keep !== 'original' && params.keep !== 'copy') {
+        return {
+          success: false,
+          message: 'Please specify which version to keep: keep="original" or keep="copy"',
+        };
+      }
+
+      const result = await resolveMemoryConflict(config, params.path, params.keep);
+      return {
+        success: result.resolved,
+        message: result.message,
+      };
+    }
+
+    const dryRun = params.dryRun || false;
+    const indexResult = await mergeIndexConflicts(config, { dryRun });
+    const memoryConflicts = await listMemoryConflicts(config);
+
+    const lines: string[] = [];
+
+    if (indexResult.merged.length === 0 && indexResult.unreadable.length === 0) {
+      lines.push('No index conflicts found.');
+    } else {
+      lines.push(
+        dryRun
+          ? `Index conflicts that would be merged: ${indexResult.merged.join(', ') || '(none)'}`
+          : `Merged index conflicts: ${indexResult.merged.join(', ') || '(none)'}`
+      );
+      if (indexResult.added.length > 0) {
+        lines.push(`  Added: ${indexResult.added.join(', ')}`);
+      }
+      if (indexResult.updated.length > 0) {
+        lines.push(`  Updated to newer version: ${indexResult.updated.join(', ')}`);
+      }
+      if (indexResult.removed.length > 0) {
+        lines.push(`  Removed (deleted on another machine): ${indexResult.removed.join(', ')}`);
+      }
+      if (indexResult.unreadable.length > 0) {
+        lines.push(`  Unreadable, left in place: ${indexResult.unreadable.join(', ')}`);
+      }
+    }
+
+    lines.push('');
+
+    if (memoryConflicts.length === 0) {
+      lines.push('No memory file conflicts found.');
+    } else {
+      lines.push(`Memory file conflicts (${memoryConflicts.length}):`);
+      for (const conflict of memoryConflicts) {
+        const original = conflict.original
+          ? `"${conflict.original.title}" updated ${conflict.original.updated}`
+          : '(unreadable)';
+        const copy = conflict.conflict
+          ? `"${conflict.conflict.title}" updated ${conflict.conflict.updated}`
+          : '(unreadable)';
+        lines.push('');
+        lines.push(`- ${conflict.copy.originalPath}`);
+        lines.push(`  Original: ${original}`);
+        lines.push(`  Copy from ${conflict.copy.machine}: ${copy} (${conflict.copy.path})`);
+        if (conflict.newer !== 'unknown') {
+          lines.push(`  Newer: ${conflict.newer}`);
+        }
+      }
+      lines.push('');
+      lines.push('To resolve: { path: "<original path>", keep: "original" | "copy" }');
+    }
+
+    return {
+      success: true,
+      message: lines.join('\n'),
+      data: { index: indexResult, memories: memoryConflicts },
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: `Failed to resolve conflicts: ${
+        error instanceof Error ? error.message : 'Unknown error'
+      }`,
+    };
+  }
+}
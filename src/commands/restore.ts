@@ -0,0 +1,72 @@
+import { listTrash, restoreMemory } from '../memory.js';
+import type { Config, CommandResult } from '../types.js';
+
+export interface RestoreParams {
+  id?: string;
+}
+
+export async function restore(
+  config: Config,
+  params: RestoreParams
+): Promise<CommandResult> {
+  try {
+    const trash = await listTrash(config);
+
+    // No ID: show what can be restored
+    if (!params.id) {
+      if (trash.length === 0) {
+        return {
+          success: true,
+          message: 'Trash is empty.',
+          data: [],
+        };
+      }
+
+      const lines = [`Trash (${trash.length}):`, ''];
+      for (const item of trash) {
+        lines.push(`- **${item.title}** [${item.category}]`);
+        lines.push(`  ID: ${item.id.substring(0, 8)}... | Deleted: ${item.deletedAt.split('T')[0]}`);
+      }
+      lines.push('', 'Use restore with an ID to bring a memory back.');
+      return {
+        success: true,
+        message: lines.join('\n'),
+        data: trash,
+      };
+    }
+
+    // Support partial ID
+    const match = trash.find(
+      (t) => t.id === params.id || t.id.startsWith(params.id!)
+    );
+
+    if (!match) {
+      return {
+        success: false,
+        message: `No trashed memory found with ID starting with "${params.id}"`,
+      };
+    }
+
+    const memory = await restoreMemory(config, match.id);
+
+    if (!memory) {
+      return {
+        success: false,
+        message: `Failed to restore memory with ID "${match.id}"`,
+      };
+    }
+
+    return {
+      success: true,
+      message: `Memory "${memory.title}" has been restored.\nID: ${memory.id}`,
+      data: memory,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: `Failed to restore memory: ${
+        error instanceof Error ? error.message : 'Unknown error'
+      }`,
+    };
+  }
+}
@@ -0,0 +1,56 @@
+import { listMemories, revertMemory } from '../memory.js';
+import type { Config, CommandResult } from '../types.js';
+
+export interface RevertParams {
+  id: string;
+  version: number;
+}
+
+export async function revert(
+  config: Config,
+  params: RevertParams
+): Promise<CommandResult> {
+  if (!params.version) {
+    return {
+      success: false,
+      message: 'Please provide the version to revert to (see history).',
+    };
+  }
+
+  try {
+    // Support partial ID
+    const entries = await listMemories(config);
+    const match = entries.find(
+      (e) => e.id === params.id || e.id.startsWith(params.id)
+    );
+
+    if (!match) {
+      return {
+        success: false,
+        message: `No memory found with ID starting with "${params.id}"`,
+      };
+    }
+
+    const memory = await revertMemory(config, match.id, params.version);
+
+    if (!memory) {
+      return {
+        success: false,
+        message: `Version ${params.version} of memory "${match.title}" not found`,
+      };
+    }
+
+    return {
+      success: true,
+      message: `Memory reverted to v${params.version} (saved as a new version).\nID: ${memory.id}\nTitle: ${memory.title}\nTags: ${memory.tags.join(', ') || '(none)'}`,
+      data: memory,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: `Failed to revert memory: ${
+        error instanceof Error ? error.message : 'Unknown error'
+      }`,
+    };
+  }
+}
@@ -2,8 +2,12 @@ import {
   findAllOneDriveFolders,
   findOneDriveFolder,
   getStorageFolder,
+  getStorageBackendName,
+  isVolatileBackend,
 } from '../storage.js';
 import { detectProjectContext } from '../project.js';
+import { readRepoConfig } from '../repo-config.js';
+import { findConflictCopies } from '../conflicts.js';
 import type { Config, CommandResult } from '../types.js';
 
 export type StatusParams = Record<string, never>;
@@ -12,35 +16,45 @@ export async function status(
   config: Config,
   params: StatusParams
 ): Promise<CommandResult> {
-  const folders = findAllOneDriveFolders();
-  const currentFolder = findOneDriveFolder();
-
+  const backend = getStorageBackendName();
   let message = '';
 
-  if (folders.length === 0) {
-    return {
-      success: false,
-      message:
-        'No OneDrive folders found.\nMake sure OneDrive is installed and syncing.',
-    };
-  }
+  if (backend === 'filesystem') {
+    const folders = findAllOneDriveFolders();
+    const currentFolder = findOneDriveFolder();
 
-  if (folders.length === 1) {
-    message = `OneDrive folder: ${currentFolder}`;
-  } else {
-    message = `Multiple OneDrive folders detected:\n`;
-    folders.forEach((folder, i) => {
-      const isCurrent = folder === currentFolder;
-      message += `  ${i + 1}. ${folder}${isCurrent ? ' (selected)' : ''}\n`;
-    });
-    message += `\nTo change, run: config set <number>`;
-  }
+    if (folders.length === 0) {
+      return {
+        success: false,
+        message:
+          'No OneDrive folders found.\nMake sure OneDrive is installed and syncing.',
+      };
+    }
 
-  try {
-    const storageFolder = getStorageFolder(config);
-    message += `\nStorage folder: ${storageFolder}`;
-  } catch {
-    // Storage folder doesn't exist yet, that's fine
+    if (folders.length === 1) {
+      message = `OneDrive folder: ${currentFolder}`;
+    } else {
+      message = `Multiple OneDrive folders detected:\n`;
+      folders.forEach((folder, i) => {
+        const isCurrent = folder === currentFolder;
+        message += `  ${i + 1}. ${folder}${isCurrent ? ' (selected)' : ''}\n`;
+      });
+      message += `\nTo change, run: config set <number>`;
+    }
+
+    try {
+      const storageFolder = getStorageFolder(config);
+      message += `\nStorage folder: ${storageFolder}`;
+    } catch {
+      // Storage folder doesn't exist yet, that's fine
+    }
+    message += `\nStorage backend: ${backend}`;
+  } else {
+    // The OneDrive folder isn't used by other backends
+    message = `Storage backend: ${backend}`;
+    if (isVolatileBackend(backend)) {
+      message += '\n⚠️ Volatile: memories are kept in this server process only and lost when it stops';
+    }
   }
 
   // Show current project context
@@ -49,9 +63,42 @@ export async function status(
   if (projectContext.projectId) {
     message += `\nCurrent project: ${projectContext.projectName || 'unknown'}`;
     message += `\nProject ID: ${projectContext.projectId}`;
+    if (projectContext.orgId) {
+      message += `\nOrganization: ${projectContext.orgId}`;
+    }
   } else {
     message += `\nCurrent project: (none detected - memories will be global)`;
   }
+  if (projectContext.remotes.length > 1) {
+    const remotes = projectContext.remotes.map((r) => `${r.name} (${r.projectId})`);
+    message += `\nRemotes: ${remotes.join(', ')}`;
+  }
+  if (projectContext.aliases.length > 0) {
+    message += `\nAliases: ${projectContext.aliases.join(', ')}`;
+  }
+
+  // Show the repository config, and any settings in it that were ignored
+  const repoConfig = readRepoConfig(projectContext.gitRoot);
+  if (repoConfig.path) {
+    message += `\nRepository config: ${repoConfig.path}`;
+    for (const warning of [...repoConfig.warnings, ...projectContext.warnings]) {
+      message += `\n  ⚠️ ${warning}`;
+    }
+  }
+
+  // Show unresolved OneDrive sync conflicts
+  try {
+    const conflicts = await findConflictCopies(config);
+    if (conflicts.length > 0) {
+      message += `\n\nUnresolved sync conflicts (${conflicts.length}):`;
+      for (const conflict of conflicts) {
+        message += `\n  - ${conflict.path} (conflicts with ${conflict.originalPath})`;
+      }
+      message += '\nUse the "resolve_conflicts" tool to merge or pick a version.';
+    }
+  } catch {
+    // Storage not configured yet
+  }
 
   return {
     success: true,
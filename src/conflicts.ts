@@ -0,0 +1,288 @@
+import { posix } from 'path';
+import { parseMemory, updateMemory } from './memory.js';
+import {
+  listStorageFiles,
+  readStorageFile,
+  writeStorageFile,
+  deleteStorageFile,
+  readIndex,
+  writeIndex,
+  withIndexLock,
+  readIndexBase,
+  writeIndexBase,
+} from './storage.js';
+import type { Config, MemoryIndex, MemoryIndexEntry } from './types.js';
+
+/**
+ * OneDrive keeps both versions when two machines edit the same file, renaming
+ * one to "<name>-<MACHINE>.<ext>" (optionally with a "-<n>" counter), e.g.
+ * "index-DESKTOP-ABC.json" or "2025-01-01-foo-LAPTOP.md".
+ */
+export interface ConflictCopy {
+  path: string;         // The conflict copy
+  originalPath: string; // The file it conflicts with
+  machine: string;      // Machine name OneDrive appended
+  kind: 'index' | 'memory';
+}
+
+export interface IndexMergeResult {
+  merged: string[];     // Conflict copies merged into index.json
+  unreadable: string[]; // Conflict copies that are not valid index JSON (left in place)
+  added: string[];      // Titles of entries taken from the copies
+  updated: string[];    // Titles of entries where the copy had the newer version
+  removed: string[];    // Titles of entries deleted on one machine
+}
+
+export interface MemoryConflict {
+  copy: ConflictCopy;
+  id: string | null;
+  original: { title: string; updated: string; size: number } | null;
+  conflict: { title: string; updated: string; size: number } | null;
+  newer: 'original' | 'copy' | 'unknown';
+}
+
+const INDEX_FILE = 'index.json';
+
+// Machine names are upper-case, which keeps them apart from lower-case memory slugs
+const MACHINE_SUFFIX = /^(?=.*[A-Z])[A-Z0-9][A-Z0-9-]*$/;
+
+/**
+ * Find OneDrive conflict copies of index.json and memory files
+ */
+export async function findConflictCopies(config: Config): Promise<ConflictCopy[]> {
+  const files = await listStorageFiles(config);
+  const existing = new Set(files);
+  const copies: ConflictCopy[] = [];
+
+  for (const file of files) {
+    const isIndex = posix.dirname(file) === '.' && file.startsWith('index-') && file.endsWith('.json');
+    const isMemory = file.startsWith('memories/') && file.endsWith('.md');
+    if (!isIndex && !isMemory) continue;
+
+    const dir = posix.dirname(file);
+    const name = posix.basename(file);
+    const ext = posix.extname(name);
+    const stem = name.slice(0, -ext.length);
+
+    // Try every hyphen as the split point, shortest original name first
+    for (let i = stem.indexOf('-'); i !== -1; i = stem.indexOf('-', i + 1)) {
+      const suffix = stem.slice(i + 1);
+      if (!MACHINE_SUFFIX.test(suffix)) continue;
+
+      const originalName = stem.slice(0, i) + ext;
+      const originalPath = dir === '.' ? originalName : posix.join(dir, originalName);
+      if (!existing.has(originalPath)) continue;
+      if (isIndex && originalPath !== INDEX_FILE) continue;
+
+      copies.push({
+        path: file,
+        originalPath,
+        machine: suffix.replace(/-\d+$/, ''),
+        kind: isIndex ? 'index' : 'memory',
+      });
+      break;
+    }
+  }
+
+  return copies;
+}
+
+// Newer of two entries by updated timestamp (ties keep the first)
+function newerEntry(a: MemoryIndexEntry, b: MemoryIndexEntry): MemoryIndexEntry {
+  return new Date(b.updated).getTime() > new Date(a.updated).getTime() ? b : a;
+}
+
+/**
+ * Three-way merge of index entries by id. Entries present on both sides keep
+ * the newer version. An entry missing on one side was deleted there if the
+ * base has it and the other side didn't change it since; otherwise it was added.
+ * Without a base, nothing is treated as deleted.
+ */
+export function mergeIndexEntries(
+  base: MemoryIndex | null,
+  ours: MemoryIndex,
+  theirs: MemoryIndex
+): { index: MemoryIndex; added: string[]; updated: string[]; removed: string[] } {
+  const baseById = new Map((base?.memories || []).map((m) => [m.id, m]));
+  const theirsById = new Map(theirs.memories.map((m) => [m.id, m]));
+  const oursIds = new Set(ours.memories.map((m) => m.id));
+
+  const memories: MemoryIndexEntry[] = [];
+  const added: string[] = [];
+  const updated: string[] = [];
+  const removed: string[] = [];
+
+  // Keep one side's entry unless the other side deleted an unchanged copy of it
+  const survivesDeletion = (entry: MemoryIndexEntry): boolean => {
+    const ancestor = baseById.get(entry.id);
+    return !ancestor || new Date(entry.updated).getTime() > new Date(ancestor.updated).getTime();
+  };
+
+  for (const entry of ours.memories) {
+    const other = theirsById.get(entry.id);
+    if (other) {
+      const winner = newerEntry(entry, other);
+      if (winner !== entry) updated.push(winner.title);
+      memories.push(winner);
+    } else if (survivesDeletion(entry)) {
+      memories.push(entry);
+    } else {
+      removed.push(entry.title);
+    }
+  }
+
+  for (const entry of theirs.memories) {
+    if (oursIds.has(entry.id)) continue;
+    if (survivesDeletion(entry)) {
+      memories.push(entry);
+      added.push(entry.title);
+    } else {
+      removed.push(entry.title);
+    }
+  }
+
+  return {
+    index: { version: Math.max(ours.version, theirs.version), memories },
+    added,
+    updated,
+    removed,
+  };
+}
+
+// Parse an index file without throwing
+function parseIndexContent(content: string | null): MemoryIndex | null {
+  if (!content) return null;
+  try {
+    const index = JSON.parse(content) as MemoryIndex;
+    return index && Array.isArray(index.memories) ? index : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Merge all index.json conflict copies into index.json and delete them
+ */
+export async function mergeIndexConflicts(
+  config: Config,
+  options: { dryRun?: boolean } = {}
+): Promise<IndexMergeResult> {
+  const copies = (await findConflictCopies(config)).filter((c) => c.kind === 'index');
+  const result: IndexMergeResult = { merged: [], unreadable: [], added: [], updated: [], removed: [] };
+
+  if (copies.length === 0) {
+    return result;
+  }
+
+  return withIndexLock(config, async () => {
+    const base = await readIndexBase(config);
+    let index = await readIndex(config);
+
+    for (const copy of copies) {
+      const theirs = parseIndexContent(await readStorageFile(config, copy.path));
+      if (!theirs) {
+        result.unreadable.push(copy.path);
+        continue;
+      }
+
+      const merge = mergeIndexEntries(base, index, theirs);
+      index = merge.index;
+      result.merged.push(copy.path);
+      result.added.push(...merge.added);
+      result.updated.push(...merge.updated);
+      result.removed.push(...merge.removed);
+    }
+
+    if (!options.dryRun && result.merged.length > 0) {
+      await writeIndex(config, index);
+      for (const path of result.merged) {
+        await deleteStorageFile(config, path);
+      }
+      // Every machine's changes are now in index.json, so it's the next common ancestor
+      if (result.unreadable.length === 0) {
+        await writeIndexBase(config, index);
+      }
+    }
+
+    return result;
+  });
+}
+
+/**
+ * Describe memory-file conflict copies so the user can pick a version
+ */
+export async function listMemoryConflicts(config: Config): Promise<MemoryConflict[]> {
+  const copies = (await findConflictCopies(config)).filter((c) => c.kind === 'memory');
+  const conflicts: MemoryConflict[] = [];
+
+  for (const copy of copies) {
+    const originalContent = await readStorageFile(config, copy.originalPath);
+    const copyContent = await readStorageFile(config, copy.path);
+    const original = originalContent ? parseMemory(originalContent) : null;
+    const conflict = copyContent ? parseMemory(copyContent) : null;
+
+    let newer: MemoryConflict['newer'] = 'unknown';
+    if (original?.updated && conflict?.updated) {
+      newer = new Date(conflict.updated).getTime() > new Date(original.updated).getTime()
+        ? 'copy'
+        : 'original';
+    }
+
+    conflicts.push({
+      copy,
+      id: original?.id || conflict?.id || null,
+      original: original && originalContent
+        ? { title: original.title, updated: original.updated, size: originalContent.length }
+        : null,
+      conflict: conflict && copyContent
+        ? { title: conflict.title, updated: conflict.updated, size: copyContent.length }
+        : null,
+      newer,
+    });
+  }
+
+  return conflicts;
+}
+
+/**
+ * Resolve one memory-file conflict by keeping the original or the copy.
+ * Keeping the copy goes through updateMemory so the index stays in sync.
+ */
+export async function resolveMemoryConflict(
+  config: Config,
+  path: string,
+  keep: 'original' | 'copy'
+): Promise<{ resolved: boolean; message: string }> {
+  const conflicts = await listMemoryConflicts(config);
+  const match = conflicts.find((c) => c.copy.path === path || c.copy.originalPath === path);
+
+  if (!match) {
+    return { resolved: false, message: `No memory conflict found for "${path}"` };
+  }
+
+  if (keep === 'copy') {
+    const copyContent = await readStorageFile(config, match.copy.path);
+    const copy = copyContent ? parseMemory(copyContent) : null;
+    if (!copy || !match.id) {
+      return { resolved: false, message: `Conflict copy ${match.copy.path} could not be parsed` };
+    }
+
+    const updated = await updateMemory(config, match.id, {
+      content: copy.content,
+      tags: copy.tags,
+      relatedTo: copy.relatedTo || [],
+    });
+    if (!updated) {
+      return { resolved: false, message: `Memory ${match.id} is not in the index; run rebuild_index first` };
+    }
+  }
+
+  await deleteStorageFile(config, match.copy.path);
+
+  return {
+    resolved: true,
+    message: keep === 'copy'
+      ? `Kept ${match.copy.machine}'s version of ${match.copy.originalPath}`
+      : `Kept ${match.copy.originalPath} and removed ${match.copy.path}`,
+  };
+}
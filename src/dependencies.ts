@@ -0,0 +1,329 @@
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { homedir } from 'os';
+import { globToRegExp } from './glob.js';
+
+/**
+ * Technology detection from dependency manifests. Declared dependencies are
+ * turned into tags through a table of dependency → tags, which users can
+ * extend in dependencies.json.
+ */
+export interface DependencyTagMapping {
+  dependency: string; // Package name, or a glob over names (e.g. "@aws-sdk/*")
+  tags: string[];     // Tags to search for when the dependency is declared
+}
+
+export interface DetectedDependency {
+  name: string;     // As declared in the manifest
+  manifest: string; // Manifest path relative to the scan root
+  tags: string[];
+}
+
+// Default dependency → tag table. Names are matched case-insensitively;
+// Maven artifacts match as "groupId:artifactId" or the artifactId alone, and
+// Go modules with or without their major version suffix.
+const DEFAULT_DEPENDENCY_TAGS: DependencyTagMapping[] = [
+  // JavaScript / TypeScript
+  { dependency: 'express', tags: ['express', 'api', 'node'] },
+  { dependency: 'fastify', tags: ['fastify', 'api', 'node'] },
+  { dependency: '@nestjs/core', tags: ['nestjs', 'api', 'node'] },
+  { dependency: 'react', tags: ['react', 'frontend'] },
+  { dependency: 'next', tags: ['nextjs', 'react'] },
+  { dependency: 'vue', tags: ['vue', 'frontend'] },
+  { dependency: '@angular/core', tags: ['angular', 'frontend'] },
+  { dependency: 'svelte', tags: ['svelte', 'frontend'] },
+  { dependency: 'prisma', tags: ['prisma', 'database', 'orm'] },
+  { dependency: '@prisma/client', tags: ['prisma', 'database', 'orm'] },
+  { dependency: 'typeorm', tags: ['typeorm', 'database', 'orm'] },
+  { dependency: 'drizzle-orm', tags: ['drizzle', 'database', 'orm'] },
+  { dependency: 'mongoose', tags: ['mongodb', 'database'] },
+  { dependency: 'pg', tags: ['postgres', 'database'] },
+  { dependency: 'redis', tags: ['redis', 'cache'] },
+  { dependency: 'ioredis', tags: ['redis', 'cache'] },
+  { dependency: 'zod', tags: ['zod', 'validation'] },
+  { dependency: 'graphql', tags: ['graphql', 'api'] },
+  { dependency: '@apollo/*', tags: ['graphql', 'apollo'] },
+  { dependency: 'jest', tags: ['jest', 'testing'] },
+  { dependency: 'vitest', tags: ['vitest', 'testing'] },
+  { dependency: '@playwright/test', tags: ['playwright', 'testing', 'e2e'] },
+  { dependency: 'cypress', tags: ['cypress', 'testing', 'e2e'] },
+  { dependency: 'tailwindcss', tags: ['tailwind', 'css', 'styling'] },
+  { dependency: '@aws-sdk/*', tags: ['aws'] },
+  { dependency: '@azure/*', tags: ['azure'] },
+  { dependency: 'stripe', tags: ['stripe', 'payments'] },
+  // Python
+  { dependency: 'django', tags: ['django', 'python'] },
+  { dependency: 'flask', tags: ['flask', 'python', 'api'] },
+  { dependency: 'fastapi', tags: ['fastapi', 'python', 'api'] },
+  { dependency: 'sqlalchemy', tags: ['sqlalchemy', 'database', 'orm'] },
+  { dependency: 'pydantic', tags: ['pydantic', 'validation'] },
+  { dependency: 'pytest', tags: ['pytest', 'testing'] },
+  { dependency: 'pandas', tags: ['pandas', 'data'] },
+  { dependency: 'numpy', tags: ['numpy', 'data'] },
+  { dependency: 'torch', tags: ['pytorch', 'ml'] },
+  { dependency: 'tensorflow', tags: ['tensorflow', 'ml'] },
+  { dependency: 'celery', tags: ['celery', 'queue'] },
+  // Go
+  { dependency: 'github.com/gin-gonic/gin', tags: ['gin', 'api', 'go'] },
+  { dependency: 'github.com/labstack/echo', tags: ['echo', 'api', 'go'] },
+  { dependency: 'gorm.io/gorm', tags: ['gorm', 'database', 'orm'] },
+  { dependency: 'github.com/stretchr/testify', tags: ['testify', 'testing'] },
+  { dependency: 'google.golang.org/grpc', tags: ['grpc', 'api'] },
+  // Rust
+  { dependency: 'tokio', tags: ['tokio', 'async', 'rust'] },
+  { dependency: 'serde', tags: ['serde', 'serialization'] },
+  { dependency: 'axum', tags: ['axum', 'api', 'rust'] },
+  { dependency: 'actix-web', tags: ['actix', 'api', 'rust'] },
+  { dependency: 'diesel', tags: ['diesel', 'database', 'orm'] },
+  { dependency: 'sqlx', tags: ['sqlx', 'database'] },
+  // Java
+  { dependency: 'org.springframework.boot:*', tags: ['spring', 'java'] },
+  { dependency: 'org.hibernate*:*', tags: ['hibernate', 'database', 'orm'] },
+  { dependency: 'junit', tags: ['junit', 'testing'] },
+  { dependency: 'org.junit.jupiter:*', tags: ['junit', 'testing'] },
+  { dependency: 'lombok', tags: ['lombok', 'java'] },
+  // Ruby
+  { dependency: 'rails', tags: ['rails', 'ruby'] },
+  { dependency: 'sidekiq', tags: ['sidekiq', 'queue'] },
+  { dependency: 'rspec', tags: ['rspec', 'testing'] },
+  { dependency: 'rspec-rails', tags: ['rspec', 'testing'] },
+  // .NET
+  { dependency: 'Microsoft.EntityFrameworkCore*', tags: ['entity-framework', 'database', 'orm'] },
+  { dependency: 'Microsoft.AspNetCore*', tags: ['aspnet', 'api', 'dotnet'] },
+  { dependency: 'xunit', tags: ['xunit', 'testing'] },
+  { dependency: 'Newtonsoft.Json', tags: ['json', 'serialization'] },
+];
+
+const CONFIG_DIR = join(homedir(), '.claude', 'odsp-memory');
+const DEPENDENCIES_FILE = join(CONFIG_DIR, 'dependencies.json');
+
+/**
+ * Get the dependency → tag table (user custom entries first, then defaults)
+ */
+export function getDependencyTagMappings(): DependencyTagMapping[] {
+  const mappings: DependencyTagMapping[] = [];
+
+  // Load custom mappings if they exist; they take precedence over the defaults
+  if (existsSync(DEPENDENCIES_FILE)) {
+    try {
+      const custom = JSON.parse(readFileSync(DEPENDENCIES_FILE, 'utf-8'));
+      if (Array.isArray(custom)) {
+        mappings.push(
+          ...custom.filter(
+            (m): m is DependencyTagMapping => typeof m?.dependency === 'string' && Array.isArray(m.tags)
+          )
+        );
+      }
+    } catch {
+      // Invalid JSON, ignore
+    }
+  }
+
+  mappings.push(...DEFAULT_DEPENDENCY_TAGS);
+  return mappings;
+}
+
+/**
+ * Whether a file is a dependency manifest we can read
+ */
+export function isManifest(filePath: string): boolean {
+  const filename = filePath.split('/').pop() || filePath;
+  return (
+    ['package.json', 'requirements.txt', 'pyproject.toml', 'go.mod', 'Cargo.toml', 'pom.xml', 'Gemfile'].includes(
+      filename
+    ) ||
+    /^requirements[-.\w]*\.txt$/.test(filename) ||
+    filename.endsWith('.csproj')
+  );
+}
+
+function parsePackageJson(content: string): string[] {
+  const pkg = JSON.parse(content);
+  const names: string[] = [];
+  for (const field of ['dependencies', 'devDependencies', 'peerDependencies', 'optionalDependencies']) {
+    if (pkg[field] && typeof pkg[field] === 'object') {
+      names.push(...Object.keys(pkg[field]));
+    }
+  }
+  return names;
+}
+
+// "requests[socks]>=2.0; python_version>'3'" → "requests"
+function pythonRequirementName(spec: string): string | null {
+  const match = spec.trim().match(/^([A-Za-z0-9][A-Za-z0-9._-]*)/);
+  return match ? match[1] : null;
+}
+
+function parseRequirementsTxt(content: string): string[] {
+  const names: string[] = [];
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.replace(/#.*/, '').trim();
+    // Skip options (-r, -e, --index-url) and URLs
+    if (!line || line.startsWith('-') || line.includes('://')) continue;
+    const name = pythonRequirementName(line);
+    if (name) names.push(name);
+  }
+  return names;
+}
+
+// Sections of a TOML file as name → lines (no full TOML parsing needed for dependency lists)
+function tomlSections(content: string): Map<string, string[]> {
+  const sections = new Map<string, string[]>();
+  let current = '';
+  sections.set(current, []);
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.replace(/\s+#.*$/, '').trim();
+    const header = line.match(/^\[\[?([^\]]+)\]\]?$/);
+    if (header) {
+      current = header[1].trim();
+      if (!sections.has(current)) sections.set(current, []);
+      continue;
+    }
+    sections.get(current)!.push(line);
+  }
+  return sections;
+}
+
+// Keys of "name = ..." lines
+function tomlKeys(lines: string[]): string[] {
+  const keys: string[] = [];
+  for (const line of lines) {
+    const match = line.match(/^["']?([A-Za-z0-9_.-]+)["']?\s*=/);
+    if (match) keys.push(match[1]);
+  }
+  return keys;
+}
+
+// Quoted strings of the array assigned to key, which may span lines
+function tomlArray(lines: string[], key: string): string[] {
+  const text = lines.join('\n');
+  const match = text.match(new RegExp(`^${key}\\s*=\\s*\\[([\\s\\S]*?)\\]`, 'm'));
+  if (!match) return [];
+  return [...match[1].matchAll(/["']([^"']+)["']/g)].map((m) => m[1]);
+}
+
+function parsePyprojectToml(content: string): string[] {
+  const sections = tomlSections(content);
+  const names: string[] = [];
+
+  // PEP 621
+  for (const spec of tomlArray(sections.get('project') || [], 'dependencies')) {
+    const name = pythonRequirementName(spec);
+    if (name) names.push(name);
+  }
+  const optional = sections.get('project.optional-dependencies') || [];
+  for (const key of tomlKeys(optional)) {
+    for (const spec of tomlArray(optional, key)) {
+      const name = pythonRequirementName(spec);
+      if (name) names.push(name);
+    }
+  }
+
+  // Poetry
+  for (const [section, lines] of sections) {
+    if (/^tool\.poetry\.(dev-)?dependencies$/.test(section) || /^tool\.poetry\.group\.[^.]+\.dependencies$/.test(section)) {
+      names.push(...tomlKeys(lines).filter((key) => key !== 'python'));
+    }
+  }
+
+  return names;
+}
+
+function parseGoMod(content: string): string[] {
+  const names: string[] = [];
+  let inBlock = false;
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.replace(/\/\/.*/, '').trim();
+    if (inBlock) {
+      if (line === ')') {
+        inBlock = false;
+      } else if (line) {
+        names.push(line.split(/\s+/)[0]);
+      }
+    } else if (/^require\s*\($/.test(line)) {
+      inBlock = true;
+    } else if (line.startsWith('require ')) {
+      names.push(line.split(/\s+/)[1]);
+    }
+  }
+  return names;
+}
+
+function parseCargoToml(content: string): string[] {
+  const names: string[] = [];
+  for (const [section, lines] of tomlSections(content)) {
+    // [dependencies], [dev-dependencies], [target.'cfg(unix)'.dependencies], ...
+    if (/(^|\.)(dev-|build-)?dependencies$/.test(section)) {
+      names.push(...tomlKeys(lines));
+    }
+    // [dependencies.serde]
+    const table = section.match(/(?:^|\.)(?:dev-|build-)?dependencies\.([A-Za-z0-9_-]+)$/);
+    if (table) {
+      names.push(table[1]);
+    }
+  }
+  return names;
+}
+
+function parsePomXml(content: string): string[] {
+  const names: string[] = [];
+  for (const block of content.matchAll(/<dependency>([\s\S]*?)<\/dependency>/g)) {
+    const groupId = block[1].match(/<groupId>\s*([^<\s]+)\s*<\/groupId>/)?.[1];
+    const artifactId = block[1].match(/<artifactId>\s*([^<\s]+)\s*<\/artifactId>/)?.[1];
+    if (artifactId) {
+      names.push(groupId ? `${groupId}:${artifactId}` : artifactId);
+    }
+  }
+  return names;
+}
+
+function parseGemfile(content: string): string[] {
+  return [...content.matchAll(/^\s*gem\s+["']([^"']+)["']/gm)].map((m) => m[1]);
+}
+
+function parseCsproj(content: string): string[] {
+  return [...content.matchAll(/<PackageReference\s+[^>]*Include\s*=\s*"([^"]+)"/g)].map((m) => m[1]);
+}
+
+/**
+ * Dependency names declared in a manifest
+ */
+export function parseManifest(filePath: string, content: string): string[] {
+  const filename = filePath.split('/').pop() || filePath;
+  try {
+    if (filename === 'package.json') return parsePackageJson(content);
+    if (filename === 'pyproject.toml') return parsePyprojectToml(content);
+    if (filename === 'go.mod') return parseGoMod(content);
+    if (filename === 'Cargo.toml') return parseCargoToml(content);
+    if (filename === 'pom.xml') return parsePomXml(content);
+    if (filename === 'Gemfile') return parseGemfile(content);
+    if (filename.endsWith('.csproj')) return parseCsproj(content);
+    if (filename.endsWith('.txt')) return parseRequirementsTxt(content);
+  } catch {
+    // Malformed manifest, no dependencies
+  }
+  return [];
+}
+
+/**
+ * Tags for a dependency name from the table (first matching entry wins)
+ */
+export function getTagsForDependency(name: string, mappings: DependencyTagMapping[]): string[] | null {
+  const candidates = [name.toLowerCase()];
+  // Maven "groupId:artifactId" also matches on the artifactId alone
+  if (name.includes(':')) {
+    candidates.push(name.slice(name.indexOf(':') + 1).toLowerCase());
+  }
+  // Go modules match without their major version suffix ("echo/v4" → "echo")
+  if (/\/v\d+$/.test(name)) {
+    candidates.push(name.replace(/\/v\d+$/, '').toLowerCase());
+  }
+
+  for (const mapping of mappings) {
+    const regex = globToRegExp(mapping.dependency.toLowerCase());
+    if (candidates.some((candidate) => regex.test(candidate))) {
+      return mapping.tags;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,72 @@
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+/**
+ * Line diff based on the longest common subsequence
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ type: 'removed', text: a[i++] });
+    } else {
+      lines.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) lines.push({ type: 'added', text: b[j++] });
+
+  return lines;
+}
+
+/**
+ * Format a diff with +/- prefixes, keeping only a few lines of context around changes
+ */
+export function formatDiff(lines: DiffLine[], contextLines: number = 2): string {
+  const changed = lines.map((line) => line.type !== 'same');
+  const output: string[] = [];
+  let skipped = false;
+
+  lines.forEach((line, i) => {
+    const nearChange = changed
+      .slice(Math.max(0, i - contextLines), i + contextLines + 1)
+      .some(Boolean);
+
+    if (!nearChange) {
+      skipped = true;
+      return;
+    }
+    if (skipped) {
+      output.push('...');
+      skipped = false;
+    }
+
+    const prefix = line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' ';
+    output.push(`${prefix} ${line.text}`);
+  });
+
+  if (skipped) {
+    output.push('...');
+  }
+
+  return output.join('\n');
+}
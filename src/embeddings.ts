@@ -0,0 +1,152 @@
+import { readStorageFile, writeStorageFile } from './storage.js';
+import { tokenize } from './fulltext.js';
+import { stem } from './stemmer.js';
+import { getSynonyms, type SynonymMap } from './synonyms.js';
+import type { Config, Memory } from './types.js';
+
+/**
+ * Local, offline embeddings for semantic recall. Text is hashed into a large
+ * sparse vector of word stems, synonyms and character trigrams, so memories
+ * that share meaning-bearing words (or their spelling variants) end up close
+ * together even when phrased differently. No model download or network needed.
+ */
+export type SparseVector = Record<number, number>; // dimension -> value, zeros omitted
+
+export interface EmbeddingCache {
+  model: string; // Embedding model and settings the vectors were made with
+  vectors: Record<string, { updated: string; vector: SparseVector }>;
+}
+
+export type EmbeddingDocument = Pick<Memory, 'id' | 'title' | 'tags' | 'content' | 'updated'>;
+
+const EMBEDDINGS_FILE = 'embeddings.json';
+
+// Sparse, so the dimension count only needs to be large enough to make hash collisions rare
+const DIMENSIONS = 1 << 20;
+const MODEL_NAME = 'hashed-v1';
+
+// Feature weights within a vector
+const STEM_FEATURE_WEIGHT = 1;
+const SYNONYM_FEATURE_WEIGHT = 0.7;
+const TRIGRAM_FEATURE_WEIGHT = 0.3;
+
+// Field weights, as for keyword search but flatter
+const TITLE_WEIGHT = 2;
+const TAG_WEIGHT = 1.5;
+const BODY_WEIGHT = 1;
+
+// 32-bit FNV-1a
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * Model name for the cache. Includes the synonym map, since changing it
+ * changes every vector.
+ */
+export function getEmbeddingModel(synonyms: SynonymMap): string {
+  return `${MODEL_NAME}-${hash(JSON.stringify(synonyms)).toString(36)}`;
+}
+
+// Add a feature to the vector; the hash sign spreads collisions evenly
+function addFeature(vector: SparseVector, feature: string, weight: number): void {
+  const h = hash(feature);
+  const dimension = h % DIMENSIONS;
+  vector[dimension] = (vector[dimension] || 0) + (h & 0x80000000 ? -weight : weight);
+}
+
+function addText(vector: SparseVector, text: string, fieldWeight: number, synonyms: SynonymMap): void {
+  const counts = new Map<string, number>();
+  for (const token of tokenize(text)) {
+    counts.set(token, (counts.get(token) || 0) + 1);
+  }
+
+  for (const [token, count] of counts) {
+    // Dampen repeated words so long memories aren't dominated by them
+    const weight = fieldWeight * (1 + Math.log(count));
+
+    addFeature(vector, `w:${stem(token)}`, weight * STEM_FEATURE_WEIGHT);
+
+    for (const synonym of getSynonyms(synonyms, token)) {
+      addFeature(vector, `w:${stem(synonym)}`, weight * SYNONYM_FEATURE_WEIGHT);
+    }
+
+    const padded = `^${token}$`;
+    const trigrams = padded.length - 2;
+    for (let i = 0; i < trigrams; i++) {
+      addFeature(vector, `t:${padded.slice(i, i + 3)}`, (weight * TRIGRAM_FEATURE_WEIGHT) / Math.sqrt(trigrams));
+    }
+  }
+}
+
+function normalize(vector: SparseVector): SparseVector {
+  const values = Object.values(vector);
+  const norm = Math.sqrt(values.reduce((sum, v) => sum + v * v, 0));
+  if (norm === 0) return {};
+
+  const normalized: SparseVector = {};
+  for (const [dimension, value] of Object.entries(vector)) {
+    // Rounded to keep embeddings.json small
+    const rounded = Math.round((value / norm) * 10000) / 10000;
+    if (rounded !== 0) {
+      normalized[Number(dimension)] = rounded;
+    }
+  }
+  return normalized;
+}
+
+/**
+ * Embed a search query
+ */
+export function embedText(text: string, synonyms: SynonymMap): SparseVector {
+  const vector: SparseVector = {};
+  addText(vector, text, BODY_WEIGHT, synonyms);
+  return normalize(vector);
+}
+
+/**
+ * Embed a memory (title and tags weigh more than the body)
+ */
+export function embedDocument(doc: EmbeddingDocument, synonyms: SynonymMap): SparseVector {
+  const vector: SparseVector = {};
+  addText(vector, doc.title, TITLE_WEIGHT, synonyms);
+  addText(vector, doc.tags.join(' '), TAG_WEIGHT, synonyms);
+  addText(vector, doc.content, BODY_WEIGHT, synonyms);
+  return normalize(vector);
+}
+
+export function cosineSimilarity(a: SparseVector, b: SparseVector): number {
+  let dot = 0;
+  for (const [dimension, value] of Object.entries(a)) {
+    dot += value * (b[Number(dimension)] || 0);
+  }
+  const norm = (v: SparseVector) => Math.sqrt(Object.values(v).reduce((sum, x) => sum + x * x, 0));
+  const normA = norm(a);
+  const normB = norm(b);
+  return normA === 0 || normB === 0 ? 0 : dot / (normA * normB);
+}
+
+export async function readEmbeddingCache(config: Config, model: string): Promise<EmbeddingCache> {
+  const content = await readStorageFile(config, EMBEDDINGS_FILE);
+  if (content) {
+    try {
+      const cache = JSON.parse(content) as EmbeddingCache;
+      // Vectors from another model can't be compared - start over
+      if (cache && cache.model === model && cache.vectors) {
+        return cache;
+      }
+    } catch {
+      // Derived data - a corrupt file is simply rebuilt
+    }
+  }
+  return { model, vectors: {} };
+}
+
+export async function writeEmbeddingCache(config: Config, cache: EmbeddingCache): Promise<void> {
+  await writeStorageFile(config, EMBEDDINGS_FILE, JSON.stringify(cache));
+}
@@ -0,0 +1,133 @@
+/**
+ * Query-focused excerpts of memory bodies for recall output: the passages
+ * that best match the query, with matching words in bold, within a
+ * character budget.
+ */
+
+export const DEFAULT_EXCERPT_CHARS = 600;
+
+const ELLIPSIS = '…';
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+interface Passage {
+  text: string;
+  position: number; // Order in the body
+  score: number;
+}
+
+// Lines, with over-long lines cut at sentence boundaries
+function splitPassages(body: string, maxChars: number): string[] {
+  const passages: string[] = [];
+  for (const line of body.split('\n')) {
+    const trimmed = line.trim();
+    // Fence markers on their own would break the surrounding markdown
+    if (!trimmed || /^(```|~~~)/.test(trimmed)) continue;
+
+    if (trimmed.length <= maxChars) {
+      passages.push(trimmed);
+      continue;
+    }
+    let current = '';
+    for (const sentence of trimmed.split(/(?<=[.!?])\s+/)) {
+      if (current && current.length + sentence.length + 1 > maxChars) {
+        passages.push(current);
+        current = sentence;
+      } else {
+        current = current ? `${current} ${sentence}` : sentence;
+      }
+    }
+    if (current) passages.push(current);
+  }
+  return passages;
+}
+
+function matchedTerms(text: string, terms: Set<string>): Set<string> {
+  const found = new Set<string>();
+  for (const word of text.toLowerCase().match(WORD_PATTERN) || []) {
+    if (terms.has(word)) found.add(word);
+  }
+  return found;
+}
+
+/**
+ * Wrap words that match a term in **bold**
+ */
+export function highlightTerms(text: string, terms: Set<string>): string {
+  if (terms.size === 0) return text;
+  return text.replace(WORD_PATTERN, (word) => (terms.has(word.toLowerCase()) ? `**${word}**` : word));
+}
+
+// Cut a passage down to the budget, keeping the first match in view
+function clip(text: string, terms: Set<string>, maxChars: number): string {
+  if (text.length <= maxChars) return text;
+
+  let firstMatch = 0;
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    if (terms.has(match[0].toLowerCase())) {
+      firstMatch = match.index ?? 0;
+      break;
+    }
+  }
+
+  const start = Math.max(0, Math.min(firstMatch - Math.floor(maxChars / 4), text.length - maxChars));
+  const clipped = text.slice(start, start + maxChars);
+  return `${start > 0 ? ELLIPSIS : ''}${clipped}${start + maxChars < text.length ? ELLIPSIS : ''}`;
+}
+
+/**
+ * Best-matching passages of a memory body, in document order, within
+ * maxChars (before highlighting). Passages are ranked by how many distinct
+ * query terms they contain. Without terms, the start of the body is used.
+ */
+export function buildExcerpt(
+  body: string,
+  terms: string[],
+  maxChars: number = DEFAULT_EXCERPT_CHARS
+): string {
+  const termSet = new Set(terms.map((t) => t.toLowerCase()));
+  const passages: Passage[] = splitPassages(body, maxChars).map((text, position) => {
+    const found = matchedTerms(text, termSet);
+    // Distinct terms count most; earlier passages win ties
+    return { text, position, score: found.size };
+  });
+  if (passages.length === 0) return '';
+
+  const ranked = termSet.size > 0 && passages.some((p) => p.score > 0)
+    ? [...passages].sort((a, b) => b.score - a.score || a.position - b.position).filter((p) => p.score > 0)
+    : passages;
+
+  const chosen: Passage[] = [];
+  let used = 0;
+  for (const passage of ranked) {
+    const cost = passage.text.length + (chosen.length > 0 ? 3 : 0);
+    if (used + cost > maxChars) {
+      if (chosen.length === 0) {
+        // A clipped passage fills the whole budget
+        chosen.push({ ...passage, text: clip(passage.text, termSet, maxChars) });
+        break;
+      }
+      // Smaller passages further down may still fit
+      continue;
+    }
+    chosen.push(passage);
+    used += cost;
+  }
+
+  chosen.sort((a, b) => a.position - b.position);
+
+  const parts: string[] = [];
+  let previous = -1;
+  for (const passage of chosen) {
+    // Mark gaps where passages were skipped
+    if (passage.position > previous + 1 && (previous >= 0 || passage.position > 0)) {
+      parts.push(ELLIPSIS);
+    }
+    parts.push(highlightTerms(passage.text, termSet));
+    previous = passage.position;
+  }
+  if (previous < passages.length - 1) {
+    parts.push(ELLIPSIS);
+  }
+
+  return parts.join('\n');
+}
@@ -0,0 +1,286 @@
+import { readStorageFile, writeStorageFile } from './storage.js';
+import { stem } from './stemmer.js';
+import type { Config, Memory } from './types.js';
+
+/**
+ * Persistent inverted index over the full text of every memory, stored next to
+ * index.json. Postings map each term to the memories containing it and how often.
+ */
+export interface FullTextIndex {
+  version: number;
+  docs: Record<string, { length: number; updated: string }>; // Weighted token count per memory
+  postings: Record<string, Record<string, number>>;        // term -> memory id -> weighted term frequency
+}
+
+export type FullTextDocument = Pick<Memory, 'id' | 'title' | 'tags' | 'content' | 'updated'>;
+
+const FULLTEXT_FILE = 'search-index.json';
+
+// Field weights: a term in the title counts as three body occurrences
+const TITLE_WEIGHT = 3;
+const TAG_WEIGHT = 2;
+const BODY_WEIGHT = 1;
+
+// BM25 parameters
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Weights for expanded query terms, relative to an exact hit
+const SYNONYM_WEIGHT = 0.8;
+const STEM_WEIGHT = 0.6;
+const FUZZY_WEIGHT = 0.4;
+
+// Fuzzy matching only applies to longer terms, where a typo is unlikely to hit another word
+const FUZZY_MIN_LENGTH = 5;
+const FUZZY_LONG_LENGTH = 8; // From this length two edits are allowed
+
+/**
+ * A query term and the index terms it matches, each with a weight
+ */
+export interface ExpandedTerm {
+  term: string;
+  variants: { term: string; weight: number }[];
+}
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'in', 'is', 'it',
+  'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'we', 'with',
+]);
+
+/**
+ * Split text into lower-case search terms
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token.length > 1 && !STOPWORDS.has(token));
+}
+
+// Postings are keyed by words from memories, so they must not inherit
+// "constructor", "__proto__" and the like from Object.prototype
+function emptyIndex(): FullTextIndex {
+  return { version: 1, docs: {}, postings: Object.create(null) };
+}
+
+export async function readFullTextIndex(config: Config): Promise<FullTextIndex> {
+  const content = await readStorageFile(config, FULLTEXT_FILE);
+  if (!content) return emptyIndex();
+
+  try {
+    const index = JSON.parse(content) as FullTextIndex;
+    if (!index || !index.docs || !index.postings) {
+      return emptyIndex();
+    }
+    index.postings = Object.assign(Object.create(null), index.postings);
+    return index;
+  } catch {
+    // Derived data - a corrupt file is simply rebuilt
+    return emptyIndex();
+  }
+}
+
+export async function writeFullTextIndex(config: Config, index: FullTextIndex): Promise<void> {
+  await writeStorageFile(config, FULLTEXT_FILE, JSON.stringify(index));
+}
+
+// Remove a memory's postings from an in-memory index
+export function removeFromIndex(index: FullTextIndex, id: string): void {
+  if (!index.docs[id]) return;
+  delete index.docs[id];
+  for (const term of Object.keys(index.postings)) {
+    const posting = index.postings[term];
+    if (id in posting) {
+      delete posting[id];
+      if (Object.keys(posting).length === 0) {
+        delete index.postings[term];
+      }
+    }
+  }
+}
+
+// Add (or replace) a memory's postings in an in-memory index
+export function addToIndex(index: FullTextIndex, doc: FullTextDocument): void {
+  removeFromIndex(index, doc.id);
+
+  const frequencies = new Map<string, number>();
+  const count = (text: string, weight: number) => {
+    for (const term of tokenize(text)) {
+      frequencies.set(term, (frequencies.get(term) || 0) + weight);
+    }
+  };
+  count(doc.title, TITLE_WEIGHT);
+  count(doc.tags.join(' '), TAG_WEIGHT);
+  count(doc.content, BODY_WEIGHT);
+
+  let length = 0;
+  for (const [term, tf] of frequencies) {
+    if (!index.postings[term]) {
+      index.postings[term] = {};
+    }
+    index.postings[term][doc.id] = tf;
+    length += tf;
+  }
+  index.docs[doc.id] = { length, updated: doc.updated };
+}
+
+/**
+ * Incrementally index one memory (call while holding the index lock)
+ */
+export async function indexDocument(config: Config, doc: FullTextDocument): Promise<void> {
+  const index = await readFullTextIndex(config);
+  addToIndex(index, doc);
+  await writeFullTextIndex(config, index);
+}
+
+/**
+ * Drop one memory from the full-text index (call while holding the index lock)
+ */
+export async function removeDocument(config: Config, id: string): Promise<void> {
+  const index = await readFullTextIndex(config);
+  if (!index.docs[id]) return;
+  removeFromIndex(index, id);
+  await writeFullTextIndex(config, index);
+}
+
+// Stem -> index terms, built once per loaded index
+const stemCache = new WeakMap<FullTextIndex, Map<string, string[]>>();
+
+function getStemMap(index: FullTextIndex): Map<string, string[]> {
+  let map = stemCache.get(index);
+  if (!map) {
+    map = new Map();
+    for (const term of Object.keys(index.postings)) {
+      const key = stem(term);
+      const terms = map.get(key);
+      if (terms) {
+        terms.push(term);
+      } else {
+        map.set(key, [term]);
+      }
+    }
+    stemCache.set(index, map);
+  }
+  return map;
+}
+
+/**
+ * Damerau-Levenshtein distance (adjacent transpositions count as one edit),
+ * giving up once it exceeds max
+ */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let d = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d = Math.min(d, prevPrev[j - 2] + 1);
+      }
+      row.push(d);
+      rowMin = Math.min(rowMin, d);
+    }
+    if (rowMin > max) return max + 1;
+    prevPrev = prev;
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+/**
+ * Expand query terms with synonyms, words sharing their stem, and (for longer
+ * terms) index words within a small edit distance. Exact hits keep weight 1.
+ */
+export function expandQueryTerms(
+  index: FullTextIndex,
+  queryTerms: string[],
+  getSynonyms: (term: string) => string[] = () => []
+): ExpandedTerm[] {
+  const stems = getStemMap(index);
+  const vocabulary = Object.keys(index.postings);
+
+  return [...new Set(queryTerms)].map((term) => {
+    const weights = new Map<string, number>([[term, 1]]);
+    const add = (variant: string, weight: number) => {
+      if ((weights.get(variant) || 0) < weight) {
+        weights.set(variant, weight);
+      }
+    };
+
+    for (const synonym of getSynonyms(term)) {
+      add(synonym, SYNONYM_WEIGHT);
+      for (const variant of stems.get(stem(synonym)) || []) {
+        add(variant, SYNONYM_WEIGHT * STEM_WEIGHT);
+      }
+    }
+
+    for (const variant of stems.get(stem(term)) || []) {
+      add(variant, STEM_WEIGHT);
+    }
+
+    if (term.length >= FUZZY_MIN_LENGTH) {
+      const maxEdits = term.length >= FUZZY_LONG_LENGTH ? 2 : 1;
+      for (const candidate of vocabulary) {
+        if (candidate.length >= FUZZY_MIN_LENGTH - 1 && editDistance(term, candidate, maxEdits) <= maxEdits) {
+          add(candidate, FUZZY_WEIGHT);
+        }
+      }
+    }
+
+    return {
+      term,
+      variants: [...weights].map(([variant, weight]) => ({ term: variant, weight })),
+    };
+  });
+}
+
+/**
+ * BM25 score of each memory for the given query terms. Plain strings match
+ * exactly; an expanded term scores its best-matching variant in each memory,
+ * scaled by that variant's weight. Memories with no matching term are absent
+ * from the result.
+ */
+export function scoreBM25(index: FullTextIndex, queryTerms: Array<string | ExpandedTerm>): Map<string, number> {
+  const scores = new Map<string, number>();
+  const ids = Object.keys(index.docs);
+  if (ids.length === 0) return scores;
+
+  const avgLength = ids.reduce((sum, id) => sum + index.docs[id].length, 0) / ids.length || 1;
+
+  const expanded = queryTerms.map((t) => (typeof t === 'string' ? { term: t, variants: [{ term: t, weight: 1 }] } : t));
+  const seen = new Set<string>();
+
+  for (const { term, variants } of expanded) {
+    if (seen.has(term)) continue;
+    seen.add(term);
+
+    const best = new Map<string, number>();
+    for (const variant of variants) {
+      const posting = index.postings[variant.term];
+      if (!posting) continue;
+
+      const df = Object.keys(posting).length;
+      const idf = Math.log(1 + (ids.length - df + 0.5) / (df + 0.5));
+
+      for (const [id, tf] of Object.entries(posting)) {
+        const length = index.docs[id]?.length ?? avgLength;
+        const norm = tf * (BM25_K1 + 1) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * length / avgLength));
+        const score = variant.weight * idf * norm;
+        if (score > (best.get(id) || 0)) {
+          best.set(id, score);
+        }
+      }
+    }
+
+    for (const [id, score] of best) {
+      scores.set(id, (scores.get(id) || 0) + score);
+    }
+  }
+
+  return scores;
+}
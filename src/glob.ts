@@ -0,0 +1,220 @@
+/**
+ * Glob matching for file patterns and .gitignore rules. Supports `*`, `?`,
+ * `**`, character classes (`[abc]`, `[!abc]`) and alternation (`{a,b}`).
+ * Paths use forward slashes and are relative to the scan root.
+ */
+
+const compiled = new Map<string, RegExp>();
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+/**
+ * Convert a glob to a regular expression matching the whole path
+ */
+export function globToRegExp(glob: string): RegExp {
+  const cached = compiled.get(glob);
+  if (cached) return cached;
+
+  let source = '';
+  let braceDepth = 0;
+  let i = 0;
+
+  while (i < glob.length) {
+    const c = glob[i];
+
+    if (c === '*') {
+      if (glob[i + 1] === '*') {
+        const atSegmentStart = i === 0 || glob[i - 1] === '/';
+        if (atSegmentStart && glob[i + 2] === '/') {
+          // "**/" matches zero or more directories
+          source += '(?:.*/)?';
+          i += 3;
+        } else {
+          source += '.*';
+          i += 2;
+        }
+        continue;
+      }
+      source += '[^/]*';
+      i++;
+      continue;
+    }
+
+    if (c === '?') {
+      source += '[^/]';
+      i++;
+      continue;
+    }
+
+    if (c === '[') {
+      // Find the closing bracket; a "]" right after the opening (or "!") is literal
+      let j = i + 1;
+      if (glob[j] === '!' || glob[j] === '^') j++;
+      if (glob[j] === ']') j++;
+      const end = glob.indexOf(']', j);
+      if (end !== -1) {
+        let body = glob.slice(i + 1, end);
+        const negated = body.startsWith('!') || body.startsWith('^');
+        if (negated) body = body.slice(1);
+        body = body.replace(/[\\\]^]/g, '\\$&');
+        source += negated ? `[^/${body}]` : `[${body}]`;
+        i = end + 1;
+        continue;
+      }
+    }
+
+    if (c === '{') {
+      braceDepth++;
+      source += '(?:';
+    } else if (c === '}' && braceDepth > 0) {
+      braceDepth--;
+      source += ')';
+    } else if (c === ',' && braceDepth > 0) {
+      source += '|';
+    } else if (c === '\\' && i + 1 < glob.length) {
+      source += escapeRegExp(glob[i + 1]);
+      i += 2;
+      continue;
+    } else {
+      source += escapeRegExp(c);
+    }
+    i++;
+  }
+
+  // Unbalanced braces are treated as literal text
+  const regex = braceDepth === 0 ? new RegExp(`^${source}$`) : new RegExp(`^${escapeRegExp(glob)}$`);
+  compiled.set(glob, regex);
+  return regex;
+}
+
+/**
+ * Check a file pattern's syntax. Returns a description of the problem, or
+ * null if the pattern is valid.
+ */
+export function validateGlob(pattern: string): string | null {
+  if (!pattern.trim()) {
+    return 'Pattern is empty';
+  }
+  if (pattern.split('/').includes('..')) {
+    return 'Pattern must be relative to the git root (".." is not allowed)';
+  }
+
+  let braceDepth = 0;
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+    if (c === '\\') {
+      if (i === pattern.length - 1) {
+        return 'Pattern ends with an unfinished escape ("\\")';
+      }
+      i++;
+    } else if (c === '[') {
+      let j = i + 1;
+      if (pattern[j] === '!' || pattern[j] === '^') j++;
+      if (pattern[j] === ']') j++;
+      const end = pattern.indexOf(']', j);
+      if (end === -1) {
+        return `Unclosed "[" at position ${i + 1}`;
+      }
+      i = end;
+    } else if (c === '{') {
+      braceDepth++;
+    } else if (c === '}') {
+      if (braceDepth === 0) {
+        return `Unmatched "}" at position ${i + 1}`;
+      }
+      braceDepth--;
+    } else if (c === '*' && pattern[i + 1] === '*') {
+      // "**" must be a whole path segment
+      const before = i === 0 || pattern[i - 1] === '/';
+      const after = i + 2 === pattern.length || pattern[i + 2] === '/';
+      if (!before || !after) {
+        return `"**" at position ${i + 1} must be a whole path segment (e.g. "src/**/*.ts")`;
+      }
+      i++;
+    }
+  }
+  if (braceDepth > 0) {
+    return 'Unclosed "{"';
+  }
+
+  return null;
+}
+
+/**
+ * Match a relative path against a file pattern. A pattern without a slash
+ * ("*.prisma", "Dockerfile") matches the file name at any depth; a pattern
+ * with a slash (".github/workflows/*.yml", "src/**") is matched from the
+ * root.
+ */
+export function matchesGlob(filePath: string, pattern: string): boolean {
+  const normalized = filePath.replace(/\\/g, '/').replace(/^\.\//, '');
+  let glob = pattern.replace(/^\.\//, '');
+  if (glob.startsWith('/')) {
+    glob = glob.slice(1);
+  } else if (!glob.includes('/')) {
+    glob = `**/${glob}`;
+  }
+  return globToRegExp(glob).test(normalized);
+}
+
+export interface IgnoreRule {
+  regex: RegExp;
+  negated: boolean; // "!pattern" re-includes
+  dirOnly: boolean; // "pattern/" matches directories only
+}
+
+/**
+ * Parse .gitignore content into rules
+ */
+export function parseIgnoreRules(content: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    let line = rawLine.replace(/(?<!\\)\s+$/, '');
+    if (!line || line.startsWith('#')) continue;
+
+    const negated = line.startsWith('!');
+    if (negated) line = line.slice(1);
+    if (line.startsWith('\\#') || line.startsWith('\\!')) line = line.slice(1);
+
+    const dirOnly = line.endsWith('/');
+    if (dirOnly) line = line.slice(0, -1);
+    if (!line) continue;
+
+    // A slash at the start or in the middle anchors the pattern to the .gitignore's directory
+    let glob: string;
+    if (line.startsWith('/')) {
+      glob = line.slice(1);
+    } else if (line.includes('/')) {
+      glob = line;
+    } else {
+      glob = `**/${line}`;
+    }
+
+    rules.push({ regex: globToRegExp(glob), negated, dirOnly });
+  }
+
+  return rules;
+}
+
+/**
+ * Whether a path is ignored by the rules. Returns undefined when no rule
+ * matches, so rules from nested .gitignore files can be layered; the last
+ * matching rule wins.
+ */
+export function matchIgnoreRules(
+  relativePath: string,
+  isDirectory: boolean,
+  rules: IgnoreRule[]
+): boolean | undefined {
+  let ignored: boolean | undefined;
+  for (const rule of rules) {
+    if (rule.dirOnly && !isDirectory) continue;
+    if (rule.regex.test(relativePath)) {
+      ignored = !rule.negated;
+    }
+  }
+  return ignored;
+}
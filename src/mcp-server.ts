@@ -18,6 +18,20 @@ import {
   context,
   cleanup,
   status,
+  rebuild,
+  resolveConflicts,
+  restore,
+  emptyTrash,
+  history,
+  diff,
+  revert,
+  repairCollisions,
+  listPatterns,
+  addPattern,
+  removePattern,
+  testPatterns,
+  migrateProject,
+  projectAliases,
   type RememberParams,
   type RecallParams,
   type ListParams,
@@ -26,6 +40,19 @@ import {
   type ContextParams,
   type CleanupParams,
   type StatusParams,
+  type RebuildParams,
+  type ResolveConflictsParams,
+  type RestoreParams,
+  type EmptyTrashParams,
+  type HistoryParams,
+  type DiffParams,
+  type RevertParams,
+  type RepairCollisionsParams,
+  type AddPatternParams,
+  type RemovePatternParams,
+  type TestPatternsParams,
+  type MigrateProjectParams,
+  type ProjectAliasesParams,
 } from './commands/index.js';
 
 import {
@@ -53,6 +80,7 @@ import {
 } from './batch.js';
 
 import { formatMemoriesForDisplay } from './search.js';
+import { recordAccess } from './access.js';
 import { detectProjectContext } from './project.js';
 import {
   findAllOneDriveFolders,
@@ -60,6 +88,10 @@ import {
   setOneDriveFolder,
   clearOneDrivePreference,
   needsOneDriveSelection,
+  listStorageBackends,
+  getStorageBackendName,
+  setStorageBackend,
+  isVolatileBackend,
 } from './storage.js';
 
 import type { Config, MemoryCategory } from './types.js';
@@ -188,12 +220,13 @@ server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
       if (!memory) {
         throw new Error(`Memory not found: ${id}`);
       }
+      await recordAccess(config, [memory.id]);
       return {
         contents: [
           {
             uri,
             mimeType: 'text/markdown',
-            text: `# ${memory.title}\n\n**Category:** ${memory.category}\n**Tags:** ${memory.tags.join(', ') || 'none'}\n**Created:** ${new Date(memory.created).toLocaleString()}\n**Updated:** ${new Date(memory.updated).toLocaleString()}\n${memory.projectName ? `**Project:** ${memory.projectName}\n` : ''}${memory.priority && memory.priority !== 'normal' ? `**Priority:** ${memory.priority}\n` : ''}${memory.expiresAt ? `**Expires:** ${new Date(memory.expiresAt).toLocaleString()}\n` : ''}\n---\n\n${memory.content}`,
+            text: `# ${memory.title}\n\n**Category:** ${memory.category}\n**Tags:** ${memory.tags.join(', ') || 'none'}\n**Created:** ${new Date(memory.created).toLocaleString()}\n**Updated:** ${new Date(memory.updated).toLocaleString()}\n${memory.projectName ? `**Project:** ${memory.projectName}${memory.subPath ? ` (${memory.subPath})` : ''}\n` : memory.orgId ? `**Organization:** ${memory.orgId}\n` : ''}${memory.priority && memory.priority !== 'normal' ? `**Priority:** ${memory.priority}\n` : ''}${memory.expiresAt ? `**Expires:** ${new Date(memory.expiresAt).toLocaleString()}\n` : ''}\n---\n\n${memory.content}`,
           },
         ],
       };
@@ -216,14 +249,14 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
     {
       name: 'remember',
       description:
-        'Store a memory in OneDrive. Memories are project-scoped by default (uses git repository detection) or can be marked as global. Categories: project, decision, preference, learning, task.',
+        'Store a memory in OneDrive. Memories are project-scoped by default (uses git repository detection), or can apply to every repo of the organization or be global. Categories: project, decision, preference, learning, task. If a similar memory already exists in the same scope, nothing is stored and the existing memory is returned; use update or merge_memories, or set force to store anyway.',
       inputSchema: {
         type: 'object',
         properties: {
           category: {
             type: 'string',
             enum: ['project', 'decision', 'preference', 'learning', 'task'],
-            description: 'Memory category',
+            description: 'Memory category. Required unless the repository\'s .claude-memory.json sets defaultCategory',
           },
           content: {
             type: 'string',
@@ -234,9 +267,19 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
             items: { type: 'string' },
             description: 'Optional tags for categorization',
           },
+          scope: {
+            type: 'string',
+            enum: ['project', 'org', 'global'],
+            description: 'project: the current repo. org: every repo of its organization (e.g. github.com/our-org), for team conventions. global: everywhere. Default: project',
+          },
           global: {
             type: 'boolean',
-            description: 'If true, memory is global (not project-scoped). Default: false',
+            description: 'If true, memory is global (same as scope: global). Default: false',
+            default: false,
+          },
+          repoWide: {
+            type: 'boolean',
+            description: 'In a monorepo sub-directory (e.g. apps/web), memories are scoped to that sub-path and rank highest there. Set true to apply to the whole repo instead. Default: false',
             default: false,
           },
           priority: {
@@ -248,20 +291,25 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
             type: 'string',
             description: 'Time-to-live (e.g., "7d", "30d", "1y"). Memory will auto-expire.',
           },
+          force: {
+            type: 'boolean',
+            description: 'Store even if a similar memory already exists in the same scope. Default: false',
+            default: false,
+          },
         },
-        required: ['category', 'content'],
+        required: ['content'],
       },
     },
     {
       name: 'recall',
       description:
-        'Search and retrieve memories. Automatically filters to current project unless global is specified. Uses intelligent scoring algorithm that considers content relevance, tags, category, and priority.',
+        'Search and retrieve memories. Automatically filters to current project unless the query names a project or global/all is specified. Uses intelligent scoring algorithm that considers content relevance, tags, category, priority, recency, how often a memory has been used, and staleness. The query accepts filters: tag:docker category:decision project:myrepo priority:high updated:>2025-01-01 created:<30d -tag:deprecated "exact phrase". A leading "-" excludes, commas mean any of (tag:docker,k8s), project:global matches global memories, project:github.com/our-org org-wide memories and project:* all projects. When there are more matches than fit on a page, the result ends with a cursor for the next page and counts by category, tag, project and priority to narrow the query with.',
       inputSchema: {
         type: 'object',
         properties: {
           query: {
             type: 'string',
-            description: 'Search query (searches title, content, tags)',
+            description: 'Search query: free text (searches title, content, tags), "quoted phrases" and field filters (tag:, category:, project:, priority:, updated:, created:)',
           },
           category: {
             type: 'string',
@@ -276,17 +324,40 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
             type: 'boolean',
             description: 'If true, search all memories regardless of project',
           },
+          mode: {
+            type: 'string',
+            enum: ['keyword', 'semantic', 'hybrid'],
+            description: 'keyword: word matching (default); semantic: similarity of meaning using local embeddings, finds differently-phrased memories; hybrid: both blended',
+          },
           limit: {
             type: 'number',
-            description: 'Maximum number of results. Default: 10',
+            description: 'Maximum number of results per page. Default: 10',
             default: 10,
           },
+          cursor: {
+            type: 'string',
+            description: 'Cursor from a previous result ("Next page: cursor ...") to get the following page. Use with the same query and filters.',
+          },
+          full: {
+            type: 'boolean',
+            description: 'If true, return whole memory bodies instead of the passages matching the query. Default: false',
+            default: false,
+          },
+          maxChars: {
+            type: 'number',
+            description: 'Character budget for each result excerpt. Default: 600',
+            default: 600,
+          },
+          explain: {
+            type: 'boolean',
+            description: 'If true, show how each score was calculated (text match, category, priority, recency, usage, staleness)',
+          },
         },
       },
     },
     {
       name: 'list',
-      description: 'List all memories, optionally filtered by category or project.',
+      description: 'List all memories, optionally filtered by category or project. Results are paged; when there is more than one page, counts by category, tag, project and priority are included.',
       inputSchema: {
         type: 'object',
         properties: {
@@ -303,12 +374,21 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
             type: 'boolean',
             description: 'If true, show only current project memories',
           },
+          limit: {
+            type: 'number',
+            description: 'Maximum number of memories per page. Default: 50',
+            default: 50,
+          },
+          cursor: {
+            type: 'string',
+            description: 'Cursor from a previous result to get the following page. Use with the same filters.',
+          },
         },
       },
     },
     {
       name: 'forget',
-      description: 'Delete a memory by ID. Supports partial ID matching (e.g., first few characters).',
+      description: 'Delete a memory by ID (moves it to the trash; use restore to undo). Supports partial ID matching (e.g., first few characters).',
       inputSchema: {
         type: 'object',
         properties: {
@@ -346,28 +426,69 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
     {
       name: 'get_context',
       description:
-        'Get smart context for current project. Analyzes file patterns in the working directory and returns relevant memories based on detected technologies and patterns.',
+        'Get smart context for current project. Memories about what is being edited come first: changed files, the branch name and recent commit subjects from git are turned into search terms and tags. Then file patterns in the working directory, then recent project memories.',
       inputSchema: {
         type: 'object',
         properties: {
           limit: {
             type: 'number',
-            description: 'Maximum number of memories to return. Default: 5',
+            description: 'Maximum number of memories to return. Default: 5 (20 candidates when maxTokens is set)',
             default: 5,
           },
           verbose: {
             type: 'boolean',
-            description: 'If true, show detected file patterns in output',
+            description: 'If true, show detected file patterns and the git working set in output',
+          },
+          maxTokens: {
+            type: 'number',
+            description: 'Token budget for the returned context. High-priority memories come first; memories that do not fit in full are summarized, and any left out are listed by ID.',
           },
         },
       },
     },
     {
       name: 'cleanup',
-      description: 'Remove expired memories based on TTL. Use dryRun to preview before deleting.',
+      description: 'Move expired memories (based on TTL) to the trash and permanently delete trashed memories past the retention period. Use dryRun to preview before deleting.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          dryRun: {
+            type: 'boolean',
+            description: 'If true, show what would be deleted without deleting',
+            default: false,
+          },
+          trashRetentionDays: {
+            type: 'number',
+            description: 'Days to keep trashed memories before purging them. Default: 30',
+            default: 30,
+          },
+        },
+      },
+    },
+    {
+      name: 'restore',
+      description:
+        'Restore a deleted memory from the trash. Without an ID, lists trashed memories. Supports partial ID matching.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          id: {
+            type: 'string',
+            description: 'Trashed memory ID (full or partial)',
+          },
+        },
+      },
+    },
+    {
+      name: 'empty_trash',
+      description: 'Permanently delete trashed memories. Use dryRun to preview before deleting.',
       inputSchema: {
         type: 'object',
         properties: {
+          olderThanDays: {
+            type: 'number',
+            description: 'Only delete memories trashed more than this many days ago',
+          },
           dryRun: {
             type: 'boolean',
             description: 'If true, show what would be deleted without deleting',
@@ -388,14 +509,14 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
     {
       name: 'configure_storage',
       description:
-        'Configure storage location. Use this to select from detected OneDrive folders or set a custom storage path. Required when multiple OneDrive folders are detected.',
+        'Configure storage location. Use this to select from detected OneDrive folders, set a custom storage path, or choose the storage backend. Required when multiple OneDrive folders are detected.',
       inputSchema: {
         type: 'object',
         properties: {
           action: {
             type: 'string',
-            enum: ['list', 'select', 'custom', 'reset'],
-            description: 'Action: list (show options), select (choose OneDrive folder by index), custom (set custom path), reset (clear preference)',
+            enum: ['list', 'select', 'custom', 'reset', 'backend'],
+            description: 'Action: list (show options), select (choose OneDrive folder by index), custom (set custom path), reset (clear preference), backend (choose storage backend)',
           },
           index: {
             type: 'number',
@@ -405,11 +526,262 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
             type: 'string',
             description: 'Custom storage path (use with action=custom)',
           },
+          backend: {
+            type: 'string',
+            description: 'Storage backend name, e.g. "filesystem" (default) or "memory" (volatile, this session only; use with action=backend)',
+          },
         },
         required: ['action'],
       },
     },
 
+    {
+      name: 'rebuild_index',
+      description:
+        'Rebuild index.json from the memory markdown files. Use when memories are missing from recall/list or the index is corrupted. Reports recovered, orphaned, duplicate and unparseable files. Runs automatically if index.json cannot be parsed.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          dryRun: {
+            type: 'boolean',
+            description: 'If true, report what would change without writing the index',
+            default: false,
+          },
+        },
+      },
+    },
+
+    {
+      name: 'resolve_conflicts',
+      description:
+        'Find and resolve OneDrive sync-conflict copies (e.g. index-DESKTOP-ABC.json, 2025-01-01-foo-LAPTOP.md). Without a path, merges index conflicts and lists memory file conflicts. With path and keep, resolves one memory file conflict.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          path: {
+            type: 'string',
+            description: 'Memory file (original or conflict copy path) to resolve',
+          },
+          keep: {
+            type: 'string',
+            enum: ['original', 'copy'],
+            description: 'Which version to keep (use with path)',
+          },
+          dryRun: {
+            type: 'boolean',
+            description: 'If true, preview the index merge without writing',
+            default: false,
+          },
+        },
+      },
+    },
+
+    {
+      name: 'repair_collisions',
+      description:
+        'Repair memories that share one file (same title created on the same day before filenames were collision-safe). Recovers overwritten content from conflict copies, history, trash, or the index snippet.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          dryRun: {
+            type: 'boolean',
+            description: 'If true, report what would be repaired without writing',
+            default: false,
+          },
+        },
+      },
+    },
+
+    // ========== Projects ==========
+    {
+      name: 'migrate_project',
+      description:
+        'Move memories from an old project ID to a new one after a remote rename, transfer or host move. Rewrites the project ID and name in each memory file and the index, and registers the old ID as an alias so copies synced from other machines still belong to the project.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          from: {
+            type: 'string',
+            description: 'Old project ID or remote URL, e.g. "github.com/old-org/repo"',
+          },
+          to: {
+            type: 'string',
+            description: 'New project ID or remote URL. Default: the current project',
+          },
+          name: {
+            type: 'string',
+            description: 'New project name. Default: derived from the new project ID',
+          },
+          dryRun: {
+            type: 'boolean',
+            description: 'If true, list the memories that would move without writing',
+            default: false,
+          },
+          keepAlias: {
+            type: 'boolean',
+            description: 'Register the old ID as an alias of the new one',
+            default: true,
+          },
+        },
+        required: ['from'],
+      },
+    },
+    {
+      name: 'project_aliases',
+      description:
+        'List, add or remove project aliases. Memories under any project ID in an alias group are recalled as one project.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          action: {
+            type: 'string',
+            enum: ['list', 'add', 'remove'],
+            description: 'Action to perform. Default: list',
+          },
+          projectId: {
+            type: 'string',
+            description: 'For add: the project to add the alias to. Default: the current project',
+          },
+          alias: {
+            type: 'string',
+            description: 'For add/remove: the project ID or remote URL of the alias',
+          },
+        },
+      },
+    },
+
+    // ========== Trigger Patterns ==========
+    {
+      name: 'list_patterns',
+      description: 'List the file pattern mappings get_context uses to pick tags: the built-in ones and your custom ones.',
+      inputSchema: {
+        type: 'object',
+        properties: {},
+      },
+    },
+    {
+      name: 'add_pattern',
+      description:
+        'Add a custom file pattern mapping. When a file matching the glob is in the project, get_context searches memories with its tags. Patterns without a slash match file names at any depth; patterns with a slash are matched from the git root.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          pattern: {
+            type: 'string',
+            description: 'Glob, e.g. "*.tf", "**/migrations/*.sql", "apps/*/next.config.js"',
+          },
+          tags: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Tags to search for when the pattern matches',
+          },
+          category: {
+            type: 'string',
+            enum: ['project', 'decision', 'preference', 'learning', 'task'],
+            description: 'Optional category for the mapping',
+          },
+          description: {
+            type: 'string',
+            description: 'Human-readable description (must be unique). Default: "Custom: {pattern}"',
+          },
+        },
+        required: ['pattern', 'tags'],
+      },
+    },
+    {
+      name: 'remove_pattern',
+      description: 'Remove a custom file pattern mapping. Built-in patterns cannot be removed.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          pattern: {
+            type: 'string',
+            description: 'The glob or description of the custom mapping',
+          },
+        },
+        required: ['pattern'],
+      },
+    },
+    {
+      name: 'test_patterns',
+      description:
+        'Show which patterns and dependencies match a directory (scanned from its git root), the resulting tags, and which memories get_context would surface for them. With pattern, show the files a glob would match before adding it.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          directory: {
+            type: 'string',
+            description: 'Directory to test. Default: current working directory',
+          },
+          pattern: {
+            type: 'string',
+            description: 'Optional: a glob to try instead of the configured patterns',
+          },
+          limit: {
+            type: 'number',
+            description: 'Maximum number of memories to show. Default: 5',
+            default: 5,
+          },
+        },
+      },
+    },
+
+    // ========== Version History ==========
+    {
+      name: 'history',
+      description: 'List all versions of a memory with timestamps. Every update keeps the previous version.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          id: {
+            type: 'string',
+            description: 'Memory ID (full or partial)',
+          },
+        },
+        required: ['id'],
+      },
+    },
+    {
+      name: 'diff',
+      description: 'Show the differences between two versions of a memory. Defaults to the previous version vs the current one.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          id: {
+            type: 'string',
+            description: 'Memory ID (full or partial)',
+          },
+          from: {
+            type: 'number',
+            description: 'Older version number (default: the version before "to")',
+          },
+          to: {
+            type: 'number',
+            description: 'Newer version number (default: current)',
+          },
+        },
+        required: ['id'],
+      },
+    },
+    {
+      name: 'revert',
+      description: 'Restore an earlier version of a memory. The current version is kept in history.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          id: {
+            type: 'string',
+            description: 'Memory ID (full or partial)',
+          },
+          version: {
+            type: 'number',
+            description: 'Version number to revert to (see history)',
+          },
+        },
+        required: ['id', 'version'],
+      },
+    },
+
     // ========== Memory Relationships ==========
     {
       name: 'link_memories',
@@ -453,7 +825,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
     {
       name: 'merge_memories',
       description:
-        'Merge multiple memories into one. The first memory becomes the base, and others are appended to it. Original memories are deleted.',
+        'Merge multiple memories into one. The first memory becomes the base, and others are appended to it. Original memories are moved to the trash.',
       inputSchema: {
         type: 'object',
         properties: {
@@ -510,7 +882,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
     {
       name: 'batch_delete',
       description:
-        'Delete multiple memories at once based on filters. CAUTION: This is destructive. Always use dryRun first!',
+        'Delete multiple memories at once based on filters (they are moved to the trash). CAUTION: Always use dryRun first!',
       inputSchema: {
         type: 'object',
         properties: {
@@ -701,6 +1073,34 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      case 'restore': {
+        const params = request.params.arguments as unknown as RestoreParams;
+        const result = await restore(config, params);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: result.message,
+            },
+          ],
+          isError: !result.success,
+        };
+      }
+
+      case 'empty_trash': {
+        const params = request.params.arguments as unknown as EmptyTrashParams;
+        const result = await emptyTrash(config, params);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: result.message,
+            },
+          ],
+          isError: !result.success,
+        };
+      }
+
       case 'status': {
         const params = request.params.arguments as unknown as StatusParams;
         const result = await status(config, params);
@@ -733,7 +1133,12 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       }
 
       case 'configure_storage': {
-        const args = request.params.arguments as { action: string; index?: number; path?: string };
+        const args = request.params.arguments as {
+          action: string;
+          index?: number;
+          path?: string;
+          backend?: string;
+        };
 
         try {
           const folders = findAllOneDriveFolders();
@@ -774,6 +1179,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
                     `Path: ${currentFolder}\n`;
                 }
               }
+              message += `\n**Storage backend:** ${getStorageBackendName()} (available: ${listStorageBackends().join(', ')})\n`;
               message += '\n**To select:**\n';
               message += '`configure_storage` with action="select" and index=<number>\n\n';
               message += '**Or set custom path:**\n';
@@ -868,12 +1274,41 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               };
             }
 
+            case 'backend': {
+              if (!args.backend) {
+                return {
+                  content: [
+                    {
+                      type: 'text',
+                      text: `❌ Missing required parameter: backend\n\nAvailable backends: ${listStorageBackends().join(', ')}\nExample: { action: "backend", backend: "filesystem" }`,
+                    },
+                  ],
+                  isError: true,
+                };
+              }
+
+              setStorageBackend(args.backend);
+
+              const volatileNote = isVolatileBackend(args.backend)
+                ? `\n\n⚠️ "${args.backend}" keeps memories in this server process only. Anything stored now is lost when the server stops, and the next start uses the saved backend again (your existing memories are untouched).`
+                : '';
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: `✓ Storage backend set to: ${args.backend}${volatileNote}`,
+                  },
+                ],
+                isError: false,
+              };
+            }
+
             default:
               return {
                 content: [
                   {
                     type: 'text',
-                    text: `❌ Unknown action: ${args.action}\n\nValid actions: list, select, custom, reset`,
+                    text: `❌ Unknown action: ${args.action}\n\nValid actions: list, select, custom, reset, backend`,
                   },
                 ],
                 isError: true,
@@ -892,6 +1327,176 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         }
       }
 
+      case 'rebuild_index': {
+        const params = request.params.arguments as unknown as RebuildParams;
+        const result = await rebuild(config, params);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: result.message,
+            },
+          ],
+          isError: !result.success,
+        };
+      }
+
+      case 'resolve_conflicts': {
+        const params = request.params.arguments as unknown as ResolveConflictsParams;
+        const result = await resolveConflicts(config, params);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: result.message,
+            },
+          ],
+          isError: !result.success,
+        };
+      }
+
+      case 'repair_collisions': {
+        const params = request.params.arguments as unknown as RepairCollisionsParams;
+        const result = await repairCollisions(config, params);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: result.message,
+            },
+          ],
+          isError: !result.success,
+        };
+      }
+
+      // ========== Projects ==========
+      case 'migrate_project': {
+        const params = request.params.arguments as unknown as MigrateProjectParams;
+        const result = await migrateProject(config, params);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: result.success ? `✓ ${result.message}` : `✗ ${result.message}`,
+            },
+          ],
+          isError: !result.success,
+        };
+      }
+
+      case 'project_aliases': {
+        const params = (request.params.arguments || {}) as unknown as ProjectAliasesParams;
+        const result = await projectAliases(config, params);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: result.success ? result.message : `✗ ${result.message}`,
+            },
+          ],
+          isError: !result.success,
+        };
+      }
+
+      // ========== Trigger Patterns ==========
+      case 'list_patterns': {
+        const result = await listPatterns();
+        return {
+          content: [
+            {
+              type: 'text',
+              text: result.message,
+            },
+          ],
+          isError: !result.success,
+        };
+      }
+
+      case 'add_pattern': {
+        const params = request.params.arguments as unknown as AddPatternParams;
+        const result = await addPattern(params);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: result.success ? `✓ ${result.message}` : `✗ ${result.message}`,
+            },
+          ],
+          isError: !result.success,
+        };
+      }
+
+      case 'remove_pattern': {
+        const params = request.params.arguments as unknown as RemovePatternParams;
+        const result = await removePattern(params);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: result.success ? `✓ ${result.message}` : `✗ ${result.message}`,
+            },
+          ],
+          isError: !result.success,
+        };
+      }
+
+      case 'test_patterns': {
+        const params = request.params.arguments as unknown as TestPatternsParams;
+        const result = await testPatterns(config, params);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: result.message,
+            },
+          ],
+          isError: !result.success,
+        };
+      }
+
+      // ========== Version History ==========
+      case 'history': {
+        const params = request.params.arguments as unknown as HistoryParams;
+        const result = await history(config, params);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: result.message,
+            },
+          ],
+          isError: !result.success,
+        };
+      }
+
+      case 'diff': {
+        const params = request.params.arguments as unknown as DiffParams;
+        const result = await diff(config, params);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: result.message,
+            },
+          ],
+          isError: !result.success,
+        };
+      }
+
+      case 'revert': {
+        const params = request.params.arguments as unknown as RevertParams;
+        const result = await revert(config, params);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: result.message,
+            },
+          ],
+          isError: !result.success,
+        };
+      }
+
       // ========== Memory Relationships ==========
       case 'link_memories': {
         const args = request.params.arguments as { id1: string; id2: string; operation?: string };
@@ -1373,9 +1978,13 @@ async function main() {
   console.error('   • memory://project/{id}      - Project memories (JSON)');
   console.error('   • memory://category/{name}   - Category memories (JSON)');
   console.error('');
-  console.error('🛠️  MCP Tools: 17 operations available');
+  console.error('🛠️  MCP Tools: 31 operations available');
   console.error('   Core: remember, recall, list, forget, update, get_context,');
-  console.error('         cleanup, status, configure_storage');
+  console.error('         cleanup, restore, empty_trash, status, configure_storage,');
+  console.error('         rebuild_index, resolve_conflicts, repair_collisions');
+  console.error('   History: history, diff, revert');
+  console.error('   Projects: migrate_project, project_aliases');
+  console.error('   Patterns: list_patterns, add_pattern, remove_pattern, test_patterns');
   console.error('   Advanced: link_memories, get_related, merge_memories,');
   console.error('             batch_tag, batch_delete, get_statistics,');
   console.error('             visualize_graph, export_memories');
@@ -6,12 +6,19 @@ import {
   deleteStorageFile,
   readIndex,
   writeIndex,
+  withIndexLock,
+  listStorageFiles,
+  storageFileExists,
+  IndexCorruptError,
 } from './storage.js';
 import { detectProjectContext } from './project.js';
-import type { Config, Memory, MemoryCategory, MemoryIndexEntry, MemoryIndex, MemoryPriority } from './types.js';
+import { indexDocument, removeDocument } from './fulltext.js';
+import type { Config, Memory, MemoryCategory, MemoryIndexEntry, MemoryIndex, MemoryPriority, MemoryScope } from './types.js';
 
 export interface CreateMemoryOptions {
-  global?: boolean;           // If true, create a global memory (no project scope)
+  scope?: MemoryScope;        // Where the memory applies (default: project)
+  global?: boolean;           // If true, create a global memory (same as scope: global)
+  repoWide?: boolean;         // If true, don't scope to the current sub-path of the repo
   priority?: MemoryPriority;  // Memory importance level
   ttl?: string;               // Time-to-live (e.g., "7d", "30d", "1y")
   relatedTo?: string[];       // IDs of related memories
@@ -46,7 +53,7 @@ function slugify(text: string): string {
 }
 
 // Extract title from content (first line or first N chars)
-function extractTitle(content: string): string {
+export function extractTitle(content: string): string {
   const firstLine = content.split('\n')[0].trim();
   // Remove markdown heading prefix if present
   const title = firstLine.replace(/^#+\s*/, '');
@@ -79,6 +86,12 @@ function formatMemory(memory: Memory): string {
   if (memory.projectName) {
     frontmatter.projectName = memory.projectName;
   }
+  if (memory.subPath) {
+    frontmatter.subPath = memory.subPath;
+  }
+  if (memory.orgId) {
+    frontmatter.orgId = memory.orgId;
+  }
   // Only include priority if not normal (default)
   if (memory.priority && memory.priority !== 'normal') {
     frontmatter.priority = memory.priority;
@@ -96,7 +109,7 @@ function formatMemory(memory: Memory): string {
 }
 
 // Parse memory from markdown with frontmatter
-function parseMemory(content: string): Memory | null {
+export function parseMemory(content: string): Memory | null {
   try {
     const parsed = matter(content);
     const memory: Memory = {
@@ -116,6 +129,12 @@ function parseMemory(content: string): Memory | null {
     if (parsed.data.projectName) {
       memory.projectName = parsed.data.projectName as string;
     }
+    if (parsed.data.subPath) {
+      memory.subPath = parsed.data.subPath as string;
+    }
+    if (parsed.data.orgId) {
+      memory.orgId = parsed.data.orgId as string;
+    }
     // Include priority if present
     if (parsed.data.priority) {
       memory.priority = parsed.data.priority as MemoryPriority;
@@ -135,6 +154,348 @@ function parseMemory(content: string): Memory | null {
   }
 }
 
+// Build the index entry for a memory stored at the given path
+function createIndexEntry(memory: Memory, path: string): MemoryIndexEntry {
+  const entry: MemoryIndexEntry = {
+    id: memory.id,
+    category: memory.category,
+    tags: memory.tags,
+    title: memory.title,
+    path,
+    created: memory.created,
+    updated: memory.updated,
+    snippet: createSnippet(memory.content),
+  };
+
+  // Include priority in index
+  if (memory.priority && memory.priority !== 'normal') {
+    entry.priority = memory.priority;
+  }
+  // Include project info in index
+  if (memory.projectId) {
+    entry.projectId = memory.projectId;
+  }
+  if (memory.projectName) {
+    entry.projectName = memory.projectName;
+  }
+  if (memory.subPath) {
+    entry.subPath = memory.subPath;
+  }
+  if (memory.orgId) {
+    entry.orgId = memory.orgId;
+  }
+  // Include expiration in index
+  if (memory.expiresAt) {
+    entry.expiresAt = memory.expiresAt;
+  }
+  // Include related memories in index
+  if (memory.relatedTo && memory.relatedTo.length > 0) {
+    entry.relatedTo = memory.relatedTo;
+  }
+
+  return entry;
+}
+
+export interface RebuildIndexReport {
+  total: number;                                     // Entries in the rebuilt index
+  recovered: Array<{ id: string; title: string; path: string }>; // Files missing from the old index
+  orphaned: Array<{ id: string; title: string; path: string }>;  // Old index entries with no file
+  duplicates: Array<{ id: string; kept: string; discarded: string[] }>; // Same id in several files
+  unparseable: string[];                             // Files without usable frontmatter
+  previousIndexCorrupt: boolean;                     // Old index.json could not be read
+}
+
+const MEMORIES_DIR = 'memories';
+const TRASH_DIR = 'trash';
+const HISTORY_DIR = 'history';
+
+/**
+ * Scan memories/<category>/*.md and regenerate the index from their frontmatter.
+ * Does not write anything; see rebuildIndex.
+ */
+async function scanMemoryFiles(
+  config: Config,
+  previous: MemoryIndex | null
+): Promise<{ index: MemoryIndex; report: RebuildIndexReport }> {
+  const report: RebuildIndexReport = {
+    total: 0,
+    recovered: [],
+    orphaned: [],
+    duplicates: [],
+    unparseable: [],
+    previousIndexCorrupt: previous === null,
+  };
+
+  const files = (await listStorageFiles(config, MEMORIES_DIR))
+    .filter((file) => file.endsWith('.md'))
+    .sort();
+
+  const byId = new Map<string, MemoryIndexEntry>();
+  const discardedById = new Map<string, string[]>();
+
+  for (const file of files) {
+    const content = await readStorageFile(config, file);
+    const memory = content ? parseMemory(content) : null;
+    if (!memory || !memory.id || !memory.category) {
+      report.unparseable.push(file);
+      continue;
+    }
+
+    const entry = createIndexEntry(memory, file);
+    const existing = byId.get(memory.id);
+    if (existing) {
+      // Keep the most recently updated copy
+      const keepNew = new Date(entry.updated).getTime() > new Date(existing.updated).getTime();
+      const discarded = discardedById.get(memory.id) || [];
+      discarded.push(keepNew ? existing.path : entry.path);
+      discardedById.set(memory.id, discarded);
+      if (!keepNew) continue;
+    }
+    byId.set(memory.id, entry);
+  }
+
+  for (const [id, discarded] of discardedById) {
+    report.duplicates.push({ id, kept: byId.get(id)!.path, discarded });
+  }
+
+  const memories = Array.from(byId.values());
+  // Preserve the old ordering where possible, then append recovered entries by creation date
+  const previousOrder = new Map((previous?.memories || []).map((m, i) => [m.id, i]));
+  memories.sort((a, b) => {
+    const ai = previousOrder.get(a.id) ?? Infinity;
+    const bi = previousOrder.get(b.id) ?? Infinity;
+    if (ai !== bi) return ai - bi;
+    return new Date(a.created).getTime() - new Date(b.created).getTime();
+  });
+
+  if (previous) {
+    for (const entry of memories) {
+      if (!previousOrder.has(entry.id)) {
+        report.recovered.push({ id: entry.id, title: entry.title, path: entry.path });
+      }
+    }
+    for (const old of previous.memories) {
+      if (!byId.has(old.id)) {
+        report.orphaned.push({ id: old.id, title: old.title, path: old.path });
+      }
+    }
+  } else {
+    report.recovered = memories.map((m) => ({ id: m.id, title: m.title, path: m.path }));
+  }
+
+  report.total = memories.length;
+  return { index: { version: previous?.version ?? 1, memories }, report };
+}
+
+/**
+ * Use the given path unless another memory already has it, in which case
+ * add the short id so two same-titled memories on one day can't overwrite each other
+ */
+async function uniqueMemoryPath(
+  config: Config,
+  index: MemoryIndex,
+  path: string,
+  id: string
+): Promise<string> {
+  const taken = index.memories.some((m) => m.path === path && m.id !== id)
+    || await storageFileExists(config, path);
+  return taken ? path.replace(/\.md$/, `-${id.substring(0, 8)}.md`) : path;
+}
+
+// Index rebuilt for readers, reused until the corrupt index.json changes
+let rebuiltIndex: { rawContent: string; index: MemoryIndex } | null = null;
+
+/**
+ * Read the index, rebuilding it from the memory files if index.json is corrupt.
+ * With repair (only while holding the index lock) the rebuilt index is saved
+ * and the unreadable file is preserved as index.corrupt-<timestamp>.json;
+ * readers keep the rebuilt index in memory so they scan the files only once.
+ */
+async function loadIndex(config: Config, options: { repair?: boolean } = {}): Promise<MemoryIndex> {
+  try {
+    const index = await readIndex(config);
+    rebuiltIndex = null;
+    return index;
+  } catch (error) {
+    if (!(error instanceof IndexCorruptError)) throw error;
+
+    if (!options.repair && rebuiltIndex?.rawContent === error.rawContent) {
+      // Copy the list so callers sorting or filtering it in place can't alter the cache
+      return { ...rebuiltIndex.index, memories: [...rebuiltIndex.index.memories] };
+    }
+    const { index } = await scanMemoryFiles(config, null);
+    if (options.repair) {
+      console.error(`${error.message} - rebuilding index from memory files`);
+      const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+      await writeStorageFile(config, `index.corrupt-${stamp}.json`, error.rawContent);
+      await writeIndex(config, index);
+      rebuiltIndex = null;
+    } else {
+      rebuiltIndex = { rawContent: error.rawContent, index };
+    }
+    return index;
+  }
+}
+
+/**
+ * Regenerate index.json from the memory markdown files
+ */
+export async function rebuildIndex(
+  config: Config,
+  options: { dryRun?: boolean } = {}
+): Promise<RebuildIndexReport> {
+  return withIndexLock(config, async () => {
+    let previous: MemoryIndex | null;
+    try {
+      previous = await readIndex(config);
+    } catch (error) {
+      if (!(error instanceof IndexCorruptError)) throw error;
+      previous = null;
+    }
+
+    const { index, report } = await scanMemoryFiles(config, previous);
+
+    if (!options.dryRun) {
+      await writeIndex(config, index);
+    }
+
+    return report;
+  });
+}
+
+export interface PathRepairReport {
+  sharedPaths: string[]; // Paths that more than one index entry pointed at
+  repaired: Array<{
+    id: string;
+    title: string;
+    oldPath: string;
+    newPath: string;
+    source: 'file' | 'history' | 'trash' | 'snippet'; // Where the content came from
+  }>;
+}
+
+// Find the best surviving copy of a memory whose file was overwritten
+async function recoverOverwrittenMemory(
+  config: Config,
+  entry: MemoryIndexEntry,
+  otherFiles: Map<string, Array<{ path: string; memory: Memory }>>
+): Promise<{ memory: Memory; source: PathRepairReport['repaired'][number]['source'] }> {
+  // 1. Another file with this id, e.g. a OneDrive conflict copy (newest first)
+  const files = (otherFiles.get(entry.id) || [])
+    .sort((a, b) => new Date(b.memory.updated).getTime() - new Date(a.memory.updated).getTime());
+  if (files.length > 0) {
+    return { memory: files[0].memory, source: 'file' };
+  }
+
+  // 2. Latest archived version that really belongs to this memory
+  const versions = await listVersionFiles(config, entry.id);
+  for (const version of versions.reverse()) {
+    const content = await readStorageFile(config, version.path);
+    const memory = content ? parseMemory(content) : null;
+    if (memory && memory.id === entry.id) {
+      return { memory, source: 'history' };
+    }
+  }
+
+  // 3. A trashed copy
+  const trashed = await readStorageFile(config, `${TRASH_DIR}/${entry.id}.md`);
+  const trashedMemory = trashed ? parseMemory(trashed) : null;
+  if (trashedMemory && trashedMemory.id === entry.id) {
+    return { memory: trashedMemory, source: 'trash' };
+  }
+
+  // 4. Last resort: what the index still knows
+  const content = `# ${entry.title}\n\n${entry.snippet}\n\n` +
+    '_(Recovered from the index snippet - the full content was overwritten.)_';
+  return {
+    memory: {
+      id: entry.id,
+      category: entry.category,
+      tags: entry.tags,
+      title: entry.title,
+      created: entry.created,
+      updated: entry.updated,
+      content,
+      projectId: entry.projectId,
+      projectName: entry.projectName,
+      subPath: entry.subPath,
+      orgId: entry.orgId,
+      priority: entry.priority,
+      expiresAt: entry.expiresAt,
+      relatedTo: entry.relatedTo,
+    },
+    source: 'snippet',
+  };
+}
+
+/**
+ * Repair index entries that share a file path (left behind when two memories
+ * with the same title were created on the same day). The memory that owns the
+ * file keeps it; the others are recovered to new paths from other copies,
+ * history, the trash, or - failing those - their index snippet.
+ */
+export async function repairPathCollisions(
+  config: Config,
+  options: { dryRun?: boolean } = {}
+): Promise<PathRepairReport> {
+  return withIndexLock(config, async () => {
+    const index = await loadIndex(config, { repair: true });
+    const report: PathRepairReport = { sharedPaths: [], repaired: [] };
+
+    const byPath = new Map<string, MemoryIndexEntry[]>();
+    for (const entry of index.memories) {
+      const group = byPath.get(entry.path) || [];
+      group.push(entry);
+      byPath.set(entry.path, group);
+    }
+    const shared = Array.from(byPath.entries()).filter(([, group]) => group.length > 1);
+    if (shared.length === 0) {
+      return report;
+    }
+
+    // Every parseable memory file outside the shared paths, by id
+    const otherFiles = new Map<string, Array<{ path: string; memory: Memory }>>();
+    for (const file of await listStorageFiles(config, MEMORIES_DIR)) {
+      if (!file.endsWith('.md') || byPath.has(file)) continue;
+      const content = await readStorageFile(config, file);
+      const memory = content ? parseMemory(content) : null;
+      if (!memory || !memory.id) continue;
+      const list = otherFiles.get(memory.id) || [];
+      list.push({ path: file, memory });
+      otherFiles.set(memory.id, list);
+    }
+
+    for (const [path, group] of shared) {
+      report.sharedPaths.push(path);
+
+      const content = await readStorageFile(config, path);
+      const ownerId = content ? parseMemory(content)?.id : undefined;
+
+      for (const entry of group) {
+        if (entry.id === ownerId) continue;
+
+        const { memory, source } = await recoverOverwrittenMemory(config, entry, otherFiles);
+        const newPath = path.replace(/\.md$/, `-${entry.id.substring(0, 8)}.md`);
+
+        if (!options.dryRun) {
+          await writeStorageFile(config, newPath, formatMemory(memory));
+          const entryIndex = index.memories.indexOf(entry);
+          index.memories[entryIndex] = createIndexEntry(memory, newPath);
+          await indexDocument(config, memory);
+        }
+
+        report.repaired.push({ id: entry.id, title: entry.title, oldPath: path, newPath, source });
+      }
+    }
+
+    if (!options.dryRun && report.repaired.length > 0) {
+      await writeIndex(config, index);
+    }
+
+    return report;
+  });
+}
+
 export async function createMemory(
   config: Config,
   category: MemoryCategory,
@@ -178,60 +539,49 @@ export async function createMemory(
   }
 
   // Detect project context unless creating a global memory
-  if (!options.global) {
+  const scope = options.scope || (options.global ? 'global' : 'project');
+  if (scope !== 'global') {
     const projectContext = await detectProjectContext();
-    if (projectContext.projectId) {
+    if (scope === 'org') {
+      if (!projectContext.orgId) {
+        throw new Error('The current repository has no organization');
+      }
+      memory.orgId = projectContext.orgId;
+    } else if (projectContext.projectId) {
       memory.projectId = projectContext.projectId;
       memory.projectName = projectContext.projectName ?? undefined;
+      // In a monorepo package, scope to the directory the memory was created from
+      if (projectContext.subPath && !options.repoWide) {
+        memory.subPath = projectContext.subPath;
+      }
     }
   }
 
-  // Write memory file (path is relative to app folder)
-  const filePath = `memories/${category}/${datePrefix}-${slug}.md`;
-  await writeStorageFile(config, filePath, formatMemory(memory));
+  await withIndexLock(config, async () => {
+    const index = await loadIndex(config, { repair: true });
 
-  // Update index
-  const index = await readIndex(config);
-  const indexEntry: MemoryIndexEntry = {
-    id,
-    category,
-    tags,
-    title,
-    path: `memories/${category}/${datePrefix}-${slug}.md`,
-    created: now,
-    updated: now,
-    snippet: createSnippet(content),
-  };
-
-  // Include priority in index
-  if (memory.priority) {
-    indexEntry.priority = memory.priority;
-  }
+    // Write memory file (path is relative to app folder)
+    const filePath = await uniqueMemoryPath(
+      config,
+      index,
+      `${MEMORIES_DIR}/${category}/${datePrefix}-${slug}.md`,
+      id
+    );
+    await writeStorageFile(config, filePath, formatMemory(memory));
 
-  // Include project info in index
-  if (memory.projectId) {
-    indexEntry.projectId = memory.projectId;
-  }
-  if (memory.projectName) {
-    indexEntry.projectName = memory.projectName;
-  }
-  // Include expiration in index
-  if (memory.expiresAt) {
-    indexEntry.expiresAt = memory.expiresAt;
-  }
-  // Include related memories in index
-  if (memory.relatedTo && memory.relatedTo.length > 0) {
-    indexEntry.relatedTo = memory.relatedTo;
-  }
+    // Update index
+    const indexEntry = createIndexEntry(memory, filePath);
 
-  index.memories.push(indexEntry);
-  await writeIndex(config, index);
+    index.memories.push(indexEntry);
+    await writeIndex(config, index);
+    await indexDocument(config, memory);
+  });
 
   return memory;
 }
 
 export async function getMemory(config: Config, id: string): Promise<Memory | null> {
-  const index = await readIndex(config);
+  const index = await loadIndex(config);
   const entry = index.memories.find((m) => m.id === id);
 
   if (!entry) return null;
@@ -248,73 +598,285 @@ export async function updateMemory(
   id: string,
   updates: { content?: string; tags?: string[]; relatedTo?: string[] }
 ): Promise<Memory | null> {
-  const index = await readIndex(config);
-  const entryIndex = index.memories.findIndex((m) => m.id === id);
+  return withIndexLock(config, async () => {
+    const index = await loadIndex(config, { repair: true });
+    const entryIndex = index.memories.findIndex((m) => m.id === id);
 
-  if (entryIndex === -1) return null;
+    if (entryIndex === -1) return null;
 
-  const entry = index.memories[entryIndex];
-  const existingContent = await readStorageFile(config, entry.path);
+    const entry = index.memories[entryIndex];
+    const existingContent = await readStorageFile(config, entry.path);
 
-  if (!existingContent) return null;
+    if (!existingContent) return null;
 
-  const memory = parseMemory(existingContent);
-  if (!memory) return null;
+    const memory = parseMemory(existingContent);
+    if (!memory) return null;
 
-  // Apply updates
-  const now = new Date().toISOString();
-  if (updates.content !== undefined) {
-    memory.content = updates.content;
-    memory.title = extractTitle(updates.content);
-  }
-  if (updates.tags !== undefined) {
-    memory.tags = updates.tags;
-  }
-  if (updates.relatedTo !== undefined) {
-    memory.relatedTo = updates.relatedTo.length > 0 ? updates.relatedTo : undefined;
+    // Keep the previous version before overwriting it
+    await archiveVersion(config, id, existingContent);
+
+    // Apply updates
+    const now = new Date().toISOString();
+    if (updates.content !== undefined) {
+      memory.content = updates.content;
+      memory.title = extractTitle(updates.content);
+    }
+    if (updates.tags !== undefined) {
+      memory.tags = updates.tags;
+    }
+    if (updates.relatedTo !== undefined) {
+      memory.relatedTo = updates.relatedTo.length > 0 ? updates.relatedTo : undefined;
+    }
+    memory.updated = now;
+
+    // Write updated memory
+    await writeStorageFile(config, entry.path, formatMemory(memory));
+
+    // Update index entry
+    index.memories[entryIndex] = {
+      ...entry,
+      title: memory.title,
+      tags: memory.tags,
+      updated: now,
+      snippet: createSnippet(memory.content),
+      relatedTo: memory.relatedTo,
+    };
+    await writeIndex(config, index);
+    await indexDocument(config, memory);
+
+    return memory;
+  });
+}
+
+export interface MemoryVersion {
+  version: number;     // 1 = as first created; the highest number is the current version
+  updated: string;     // When this version was written
+  title: string;
+  path: string;        // Storage path of this version
+  current: boolean;
+}
+
+// Archived versions of a memory, ordered oldest first
+async function listVersionFiles(config: Config, id: string): Promise<Array<{ version: number; path: string }>> {
+  const files = await listStorageFiles(config, `${HISTORY_DIR}/${id}`);
+  return files
+    .map((path) => ({ version: parseInt(path.split('/').pop()!.replace(/\.md$/, ''), 10), path }))
+    .filter((v) => !isNaN(v.version))
+    .sort((a, b) => a.version - b.version);
+}
+
+// Save the raw file content of the version about to be replaced
+async function archiveVersion(config: Config, id: string, content: string): Promise<void> {
+  const versions = await listVersionFiles(config, id);
+  const next = versions.length > 0 ? versions[versions.length - 1].version + 1 : 1;
+  await writeStorageFile(config, `${HISTORY_DIR}/${id}/${next}.md`, content);
+}
+
+/**
+ * List all versions of a memory, including the current one
+ */
+export async function listMemoryVersions(config: Config, id: string): Promise<MemoryVersion[]> {
+  const index = await loadIndex(config);
+  const entry = index.memories.find((m) => m.id === id);
+  if (!entry) return [];
+
+  const versions: MemoryVersion[] = [];
+  for (const file of await listVersionFiles(config, id)) {
+    const content = await readStorageFile(config, file.path);
+    const memory = content ? parseMemory(content) : null;
+    if (!memory) continue;
+    versions.push({
+      version: file.version,
+      updated: memory.updated,
+      title: memory.title,
+      path: file.path,
+      current: false,
+    });
   }
-  memory.updated = now;
 
-  // Write updated memory
-  await writeStorageFile(config, entry.path, formatMemory(memory));
+  const lastVersion = versions.length > 0 ? versions[versions.length - 1].version : 0;
+  versions.push({
+    version: lastVersion + 1,
+    updated: entry.updated,
+    title: entry.title,
+    path: entry.path,
+    current: true,
+  });
 
-  // Update index entry
-  index.memories[entryIndex] = {
-    ...entry,
-    title: memory.title,
-    tags: memory.tags,
-    updated: now,
-    snippet: createSnippet(memory.content),
-    relatedTo: memory.relatedTo,
-  };
-  await writeIndex(config, index);
+  return versions;
+}
 
-  return memory;
+/**
+ * Load a specific version of a memory
+ */
+export async function getMemoryVersion(
+  config: Config,
+  id: string,
+  version: number
+): Promise<Memory | null> {
+  const match = (await listMemoryVersions(config, id)).find((v) => v.version === version);
+  if (!match) return null;
+
+  const content = await readStorageFile(config, match.path);
+  return content ? parseMemory(content) : null;
 }
 
+/**
+ * Bring back an earlier version of a memory (recorded as a new version)
+ */
+export async function revertMemory(
+  config: Config,
+  id: string,
+  version: number
+): Promise<Memory | null> {
+  const previous = await getMemoryVersion(config, id, version);
+  if (!previous) return null;
+
+  return updateMemory(config, id, {
+    content: previous.content,
+    tags: previous.tags,
+    relatedTo: previous.relatedTo || [],
+  });
+}
+
+/**
+ * Delete a memory by moving its file to trash/ (restorable until the trash is emptied)
+ */
 export async function deleteMemory(config: Config, id: string): Promise<boolean> {
-  const index = await readIndex(config);
-  const entryIndex = index.memories.findIndex((m) => m.id === id);
+  return withIndexLock(config, async () => {
+    const index = await loadIndex(config, { repair: true });
+    const entryIndex = index.memories.findIndex((m) => m.id === id);
+
+    if (entryIndex === -1) return false;
+
+    const entry = index.memories[entryIndex];
+
+    // Move file to trash, recording when and where it was deleted from
+    const content = await readStorageFile(config, entry.path);
+    if (content) {
+      const parsed = matter(content);
+      const trashed = matter.stringify(parsed.content, {
+        ...parsed.data,
+        deletedAt: new Date().toISOString(),
+        originalPath: entry.path,
+      });
+      await writeStorageFile(config, `${TRASH_DIR}/${entry.id}.md`, trashed);
+    }
+    await deleteStorageFile(config, entry.path);
 
-  if (entryIndex === -1) return false;
+    // Update index
+    index.memories.splice(entryIndex, 1);
+    await writeIndex(config, index);
+    await removeDocument(config, id);
 
-  const entry = index.memories[entryIndex];
+    return true;
+  });
+}
 
-  // Delete file
-  await deleteStorageFile(config, entry.path);
+export interface TrashEntry {
+  id: string;
+  title: string;
+  category: MemoryCategory;
+  deletedAt: string;    // ISO date string
+  originalPath: string; // Where the memory lived before deletion
+  path: string;         // Location inside trash/
+}
 
-  // Update index
-  index.memories.splice(entryIndex, 1);
-  await writeIndex(config, index);
+/**
+ * List memories in the trash, most recently deleted first
+ */
+export async function listTrash(config: Config): Promise<TrashEntry[]> {
+  const files = (await listStorageFiles(config, TRASH_DIR)).filter((f) => f.endsWith('.md'));
+  const entries: TrashEntry[] = [];
+
+  for (const file of files) {
+    const content = await readStorageFile(config, file);
+    if (!content) continue;
+
+    const memory = parseMemory(content);
+    const data = matter(content).data;
+    if (!memory || !memory.id) continue;
+
+    entries.push({
+      id: memory.id,
+      title: memory.title,
+      category: memory.category,
+      deletedAt: (data.deletedAt as string) || memory.updated,
+      originalPath: (data.originalPath as string) || `${MEMORIES_DIR}/${memory.category}/${memory.id}.md`,
+      path: file,
+    });
+  }
 
-  return true;
+  entries.sort((a, b) => new Date(b.deletedAt).getTime() - new Date(a.deletedAt).getTime());
+  return entries;
+}
+
+/**
+ * Move a memory from the trash back into memories/ and the index
+ */
+export async function restoreMemory(config: Config, id: string): Promise<Memory | null> {
+  return withIndexLock(config, async () => {
+    // Listed under the lock so a concurrent restore or empty can't take it first
+    const trashed = (await listTrash(config)).find((t) => t.id === id);
+    if (!trashed) return null;
+
+    const content = await readStorageFile(config, trashed.path);
+    const memory = content ? parseMemory(content) : null;
+    if (!memory) return null;
+
+    const index = await loadIndex(config, { repair: true });
+    if (index.memories.some((m) => m.id === memory.id)) {
+      throw new Error(`A memory with ID ${memory.id} already exists`);
+    }
+
+    // Don't overwrite a file that has taken the original path since deletion
+    const path = await uniqueMemoryPath(config, index, trashed.originalPath, memory.id);
+
+    // formatMemory drops the trash-only frontmatter fields
+    await writeStorageFile(config, path, formatMemory(memory));
+    index.memories.push(createIndexEntry(memory, path));
+    await writeIndex(config, index);
+    await indexDocument(config, memory);
+    await deleteStorageFile(config, trashed.path);
+
+    return memory;
+  });
+}
+
+/**
+ * Permanently delete trashed memories, optionally only those deleted more than N days ago
+ */
+export async function emptyTrash(
+  config: Config,
+  options: { olderThanDays?: number; dryRun?: boolean } = {}
+): Promise<TrashEntry[]> {
+  return withIndexLock(config, async () => {
+    let entries = await listTrash(config);
+
+    if (options.olderThanDays !== undefined) {
+      const cutoff = Date.now() - options.olderThanDays * 24 * 60 * 60 * 1000;
+      entries = entries.filter((t) => new Date(t.deletedAt).getTime() < cutoff);
+    }
+
+    if (!options.dryRun) {
+      for (const entry of entries) {
+        await deleteStorageFile(config, entry.path);
+        // Version history goes with the memory
+        for (const file of await listVersionFiles(config, entry.id)) {
+          await deleteStorageFile(config, file.path);
+        }
+      }
+    }
+
+    return entries;
+  });
 }
 
 export async function listMemories(
   config: Config,
   category?: MemoryCategory
 ): Promise<MemoryIndexEntry[]> {
-  const index = await readIndex(config);
+  const index = await loadIndex(config);
 
   if (category) {
     return index.memories.filter((m) => m.category === category);
@@ -324,7 +886,46 @@ export async function listMemories(
 }
 
 export async function getFullIndex(config: Config): Promise<MemoryIndex> {
-  return readIndex(config);
+  return loadIndex(config);
+}
+
+/**
+ * Move every memory of one project ID to another (after a repo is renamed,
+ * transferred or moved to another host). Rewrites projectId/projectName in
+ * the memory files and the index; content and timestamps are unchanged.
+ * Returns the entries that were (or, with dryRun, would be) moved.
+ */
+export async function migrateProjectMemories(
+  config: Config,
+  fromProjectId: string,
+  toProjectId: string,
+  toProjectName: string,
+  dryRun: boolean = false
+): Promise<MemoryIndexEntry[]> {
+  return withIndexLock(config, async () => {
+    const index = await loadIndex(config, { repair: true });
+    const matching = index.memories.filter((m) => m.projectId === fromProjectId);
+    const moved = matching.map((entry) => ({ ...entry }));
+
+    if (dryRun || matching.length === 0) {
+      return moved;
+    }
+
+    for (const entry of matching) {
+      const content = await readStorageFile(config, entry.path);
+      const memory = content ? parseMemory(content) : null;
+      if (memory) {
+        memory.projectId = toProjectId;
+        memory.projectName = toProjectName;
+        await writeStorageFile(config, entry.path, formatMemory(memory));
+      }
+      entry.projectId = toProjectId;
+      entry.projectName = toProjectName;
+    }
+    await writeIndex(config, index);
+
+    return moved;
+  });
 }
 
 /**
@@ -491,7 +1092,7 @@ export async function mergeMemories(
     relatedTo: Array.from(allRelated),
   });
 
-  // Delete the other memories
+  // Delete the other memories (they stay restorable from the trash)
   for (const other of others) {
     await deleteMemory(config, other.id);
   }
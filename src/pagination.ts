@@ -0,0 +1,162 @@
+import { createHash } from 'crypto';
+import type { MemoryIndexEntry } from './types.js';
+
+/**
+ * Cursor pagination for recall and list. A cursor records the sort key of the
+ * last item on a page, so the next page starts right after it even if
+ * memories were added or removed in between. Cursors are tied to the query
+ * they came from and rejected if reused with different filters.
+ */
+export type SortKey = Array<string | number>;
+
+export interface Page<T> {
+  items: T[];
+  total: number;       // Matches across all pages
+  offset: number;      // Position of the first item in the full result set
+  nextCursor?: string; // Absent on the last page
+}
+
+export interface Facets {
+  category: Record<string, number>;
+  tag: Record<string, number>;
+  project: Record<string, number>;
+  priority: Record<string, number>;
+}
+
+interface CursorData {
+  k: SortKey;  // Sort key of the last item returned
+  s: string;   // Scope: fingerprint of the query and filters
+  t?: number;  // Time the first page was ranked at, for time-dependent sort keys
+}
+
+/**
+ * Fingerprint of the parameters that define a result set (not the page size
+ * or cursor), so a cursor can't be used with a different query
+ */
+export function cursorScope(params: object): string {
+  return createHash('sha1').update(JSON.stringify(params)).digest('hex').slice(0, 12);
+}
+
+function encodeCursor(data: CursorData): string {
+  return Buffer.from(JSON.stringify(data)).toString('base64url');
+}
+
+function decodeCursor(cursor: string, scope: string): SortKey {
+  let data: CursorData;
+  try {
+    data = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+  } catch {
+    throw new Error('Invalid cursor');
+  }
+  if (!data || !Array.isArray(data.k)) {
+    throw new Error('Invalid cursor');
+  }
+  if (data.s !== scope) {
+    throw new Error('Cursor belongs to a different query - repeat the original query or start without a cursor');
+  }
+  return data.k;
+}
+
+/**
+ * Time the first page of a paged query was ranked at, so later pages can rank
+ * as of the same moment. Undefined without a cursor or for cursors lacking one.
+ */
+export function cursorSnapshot(cursor: string | undefined): number | undefined {
+  if (!cursor) return undefined;
+  try {
+    const data = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8')) as CursorData;
+    return typeof data?.t === 'number' ? data.t : undefined;
+  } catch {
+    // paginate reports the invalid cursor
+    return undefined;
+  }
+}
+
+/**
+ * Sort items with the given key comparator and return the page after the
+ * cursor (or the first page)
+ */
+export function paginate<T>(
+  items: T[],
+  keyOf: (item: T) => SortKey,
+  compareKeys: (a: SortKey, b: SortKey) => number,
+  options: { cursor?: string; limit: number; scope: string; snapshot?: number }
+): Page<T> {
+  const { cursor, limit, scope, snapshot } = options;
+  const sorted = [...items].sort((a, b) => compareKeys(keyOf(a), keyOf(b)));
+
+  let start = 0;
+  if (cursor) {
+    const after = decodeCursor(cursor, scope);
+    start = sorted.findIndex((item) => compareKeys(keyOf(item), after) > 0);
+    if (start === -1) start = sorted.length;
+  }
+
+  const pageItems = sorted.slice(start, start + limit);
+  const hasMore = start + limit < sorted.length;
+
+  return {
+    items: pageItems,
+    total: sorted.length,
+    offset: start,
+    nextCursor: hasMore && pageItems.length > 0
+      ? encodeCursor({ k: keyOf(pageItems[pageItems.length - 1]), s: scope, t: snapshot })
+      : undefined,
+  };
+}
+
+/**
+ * Count entries by category, tag, project and priority. Project facets use
+ * the names accepted by the project: query filter ("global" for unscoped).
+ */
+export function computeFacets(entries: MemoryIndexEntry[]): Facets {
+  // Keyed by user text, so without a prototype ("constructor" is a valid tag)
+  const facets: Facets = {
+    category: Object.create(null),
+    tag: Object.create(null),
+    project: Object.create(null),
+    priority: Object.create(null),
+  };
+  const count = (bucket: Record<string, number>, key: string) => {
+    bucket[key] = (bucket[key] || 0) + 1;
+  };
+
+  for (const entry of entries) {
+    count(facets.category, entry.category);
+    for (const tag of entry.tags) {
+      count(facets.tag, tag.toLowerCase());
+    }
+    count(facets.project, entry.projectId ? entry.projectName || entry.projectId : entry.orgId || 'global');
+    count(facets.priority, entry.priority || 'normal');
+  }
+
+  return facets;
+}
+
+/**
+ * One-line-per-facet summary, largest buckets first
+ */
+export function formatFacets(facets: Facets, maxPerFacet: number = 8): string {
+  const lines: string[] = [];
+  for (const [name, bucket] of Object.entries(facets) as [string, Record<string, number>][]) {
+    const sorted = Object.entries(bucket).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+    if (sorted.length === 0) continue;
+    const shown = sorted.slice(0, maxPerFacet).map(([key, n]) => `${key} (${n})`);
+    const more = sorted.length > maxPerFacet ? `, +${sorted.length - maxPerFacet} more` : '';
+    lines.push(`  ${name}: ${shown.join(', ')}${more}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Footer describing the page and how to get the next one
+ */
+export function formatPageFooter(page: Page<unknown>): string {
+  if (page.total === 0) return '';
+  const from = page.offset + 1;
+  const to = page.offset + page.items.length;
+  const range = page.items.length === 0 ? `No more results (${page.total} total)` : `Showing ${from}-${to} of ${page.total}`;
+  return page.nextCursor
+    ? `${range}. Next page: cursor "${page.nextCursor}"`
+    : `${range}.`;
+}
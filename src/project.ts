@@ -1,15 +1,34 @@
 import { exec } from 'child_process';
 import { promisify } from 'util';
 import * as path from 'path';
+import { realpathSync } from 'fs';
+import { loadRepoConfig } from './repo-config.js';
+import type { RepoConfig } from './repo-config.js';
 
 const execAsync = promisify(exec);
 
+export interface GitRemote {
+  name: string;      // Remote name, e.g. "origin"
+  url: string;       // Fetch URL
+  projectId: string; // Normalized fetch URL
+}
+
 export interface ProjectContext {
   projectId: string | null;   // Normalized git remote URL
   projectName: string | null; // Human-readable project name
   gitRoot: string | null;     // Local git root path
+  subPath: string | null;     // Current directory relative to the git root (null at the root)
+  orgId: string | null;       // Organization of the project (host/owner), for org-scoped memories
+  aliases: string[];          // Other project IDs whose memories belong to this project
+  remotes: GitRemote[];       // All remotes of the repository
+  repoConfig: RepoConfig;     // Settings from .claude-memory.json at the git root
+  warnings: string[];         // Repository config settings that were ignored, and why
 }
 
+// Remotes whose URL is preferred as the project ID, in order. In a fork the
+// team's repo (upstream) wins over the personal fork (origin).
+export const DEFAULT_REMOTE_PRIORITY = ['upstream', 'origin'];
+
 /**
  * Detect the current project context based on git repository
  */
@@ -20,27 +39,74 @@ export async function detectProjectContext(): Promise<ProjectContext> {
       encoding: 'utf-8',
     });
     const cleanGitRoot = gitRoot.trim();
+    const repoConfig = loadRepoConfig(cleanGitRoot);
 
-    // Try to get origin remote URL
+    // The project ID comes from the preferred remote; the other remotes it is
+    // chosen from (a fork and its upstream) are the same project
     let projectId: string | null = null;
     let projectName: string | null = null;
 
-    try {
-      const { stdout: remoteUrl } = await execAsync('git remote get-url origin', {
-        encoding: 'utf-8',
-      });
-      projectId = normalizeGitUrl(remoteUrl.trim());
+    const remotes = await getGitRemotes();
+    const canonical = pickCanonicalRemote(remotes, repoConfig.remotePriority);
+    if (canonical) {
+      projectId = canonical.projectId;
       projectName = extractProjectName(projectId);
-    } catch {
-      // No origin remote - use directory name as fallback
+    } else {
+      // No remotes - use directory name as fallback
       projectName = path.basename(cleanGitRoot);
       projectId = `local:${projectName}`;
     }
 
+    // IDs older versions derived from the remotes keep their memories in the project
+    const remoteIds = (r: GitRemote) => [r.projectId, normalizeGenericGitUrl(r.url.trim().replace(/\.git$/, ''))];
+    const ownIds = new Set(remotes.flatMap(remoteIds));
+
+    // Only the fork pair is merged automatically. Other remotes (mirrors,
+    // unrelated repos added to cherry-pick from) must be listed in aliases.
+    const priority = repoConfig.remotePriority || DEFAULT_REMOTE_PRIORITY;
+    const aliases = new Set(
+      remotes.filter((r) => r === canonical || priority.includes(r.name)).flatMap(remoteIds)
+    );
+
+    // The repository config is checked in, so it may only pick among the repo's
+    // own remotes; linking other projects is a local decision (project_aliases)
+    const warnings: string[] = [];
+    const accept = (key: string, id: string): boolean => {
+      if (ownIds.has(id)) return true;
+      warnings.push(
+        `"${key}" ${id} ignored: it matches none of this repository's remotes. ` +
+        'Use the project_aliases tool to link other projects.'
+      );
+      return false;
+    };
+    for (const alias of (repoConfig.aliases || []).map(normalizeGitUrl)) {
+      if (accept('aliases', alias)) {
+        aliases.add(alias);
+      }
+    }
+
+    // The repository config can pin the project ID (the detected one becomes an alias)
+    const pinnedId = repoConfig.projectId ? normalizeGitUrl(repoConfig.projectId) : null;
+    if (pinnedId && pinnedId !== projectId && accept('projectId', pinnedId)) {
+      aliases.add(projectId);
+      projectId = pinnedId;
+      projectName = extractProjectName(projectId);
+    }
+    if (repoConfig.projectName) {
+      projectName = repoConfig.projectName;
+    }
+    aliases.delete(projectId);
+
     return {
       projectId,
       projectName,
       gitRoot: cleanGitRoot,
+      subPath: getSubPath(cleanGitRoot, process.cwd()),
+      orgId: extractOrgId(projectId),
+      aliases: [...aliases],
+      remotes,
+      repoConfig,
+      warnings,
     };
   } catch {
     // Not a git repository
@@ -48,10 +114,73 @@ export async function detectProjectContext(): Promise<ProjectContext> {
       projectId: null,
       projectName: null,
       gitRoot: null,
+      subPath: null,
+      orgId: null,
+      aliases: [],
+      remotes: [],
+      repoConfig: {},
+      warnings: [],
     };
   }
 }
 
+/**
+ * The remotes of the current repository, with their fetch URLs normalized
+ */
+export async function getGitRemotes(): Promise<GitRemote[]> {
+  try {
+    const { stdout } = await execAsync('git remote -v', { encoding: 'utf-8' });
+    const remotes: GitRemote[] = [];
+    for (const line of stdout.split('\n')) {
+      // origin	git@github.com:user/repo.git (fetch)
+      const match = line.match(/^(\S+)\s+(\S+)\s+\(fetch\)$/);
+      if (match && !remotes.some((r) => r.name === match[1])) {
+        remotes.push({ name: match[1], url: match[2], projectId: normalizeGitUrl(match[2]) });
+      }
+    }
+    return remotes;
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * The remote whose URL is the project ID: the first one named in priority,
+ * otherwise the first remote by name
+ */
+export function pickCanonicalRemote(
+  remotes: GitRemote[],
+  priority: string[] = DEFAULT_REMOTE_PRIORITY
+): GitRemote | null {
+  for (const name of priority) {
+    const remote = remotes.find((r) => r.name === name);
+    if (remote) {
+      return remote;
+    }
+  }
+  return [...remotes].sort((a, b) => a.name.localeCompare(b.name))[0] || null;
+}
+
+/**
+ * A directory's path relative to the git root, with forward slashes
+ * ("apps/web"). Null at the root itself or outside it.
+ */
+export function getSubPath(gitRoot: string, directory: string): string | null {
+  // git prints the root with forward slashes, and resolves symlinks
+  let relative = path.relative(path.resolve(gitRoot), path.resolve(directory));
+  if (relative.startsWith('..') || path.isAbsolute(relative)) {
+    try {
+      relative = path.relative(realpathSync(gitRoot), realpathSync(directory));
+    } catch {
+      return null;
+    }
+  }
+  if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+    return null;
+  }
+  return relative.split(path.sep).join('/');
+}
+
 /**
  * Normalize git URLs to a consistent format
  * SSH: git@github.com:user/repo.git -> github.com/user/repo
@@ -63,32 +192,52 @@ export function normalizeGitUrl(url: string): string {
   // Remove .git suffix
   normalized = normalized.replace(/\.git$/, '');
 
+  // Azure DevOps comes first: the generic patterns would also match it, but
+  // keep "ssh.", "v3" or "_git" in the ID and get the organization wrong
+
+  // Handle Azure DevOps SSH: git@ssh.dev.azure.com:v3/org/project/repo
+  // (or org@vs-ssh.visualstudio.com:v3/org/project/repo)
+  const azureSshMatch = normalized.match(
+    /^[^@\s]+@(?:ssh\.dev\.azure\.com|vs-ssh\.visualstudio\.com):v3\/([^/]+)\/([^/]+)\/([^/]+)$/
+  );
+  if (azureSshMatch) {
+    return `dev.azure.com/${azureSshMatch[1]}/${azureSshMatch[2]}/${azureSshMatch[3]}`;
+  }
+
+  // Handle Azure DevOps HTTPS: https://[user@]dev.azure.com/org/project/_git/repo
+  const azureHttpsMatch = normalized.match(/^https?:\/\/(?:[^@/]+@)?dev\.azure\.com\/([^/]+)\/([^/]+)\/_git\/([^/]+)$/);
+  if (azureHttpsMatch) {
+    return `dev.azure.com/${azureHttpsMatch[1]}/${azureHttpsMatch[2]}/${azureHttpsMatch[3]}`;
+  }
+
+  // Handle legacy Azure DevOps HTTPS: https://org.visualstudio.com/[DefaultCollection/]project/_git/repo
+  const visualStudioMatch = normalized.match(
+    /^https?:\/\/(?:[^@/]+@)?([^./]+)\.visualstudio\.com\/(?:DefaultCollection\/)?([^/]+)\/_git\/([^/]+)$/i
+  );
+  if (visualStudioMatch) {
+    return `dev.azure.com/${visualStudioMatch[1]}/${visualStudioMatch[2]}/${visualStudioMatch[3]}`;
+  }
+
+  return normalizeGenericGitUrl(normalized);
+}
+
+// SSH and HTTPS remotes of other hosts. Before Azure DevOps remotes had their
+// own handling, they were normalized this way too.
+function normalizeGenericGitUrl(url: string): string {
   // Handle SSH format: git@github.com:user/repo
-  const sshMatch = normalized.match(/^git@([^:]+):(.+)$/);
+  const sshMatch = url.match(/^git@([^:]+):(.+)$/);
   if (sshMatch) {
     return `${sshMatch[1]}/${sshMatch[2]}`;
   }
 
   // Handle HTTPS format: https://github.com/user/repo
-  const httpsMatch = normalized.match(/^https?:\/\/([^/]+)\/(.+)$/);
+  const httpsMatch = url.match(/^https?:\/\/([^/]+)\/(.+)$/);
   if (httpsMatch) {
     return `${httpsMatch[1]}/${httpsMatch[2]}`;
   }
 
-  // Handle Azure DevOps SSH: git@ssh.dev.azure.com:v3/org/project/repo
-  const azureSshMatch = normalized.match(/^git@ssh\.dev\.azure\.com:v3\/(.+)$/);
-  if (azureSshMatch) {
-    return `dev.azure.com/${azureSshMatch[1]}`;
-  }
-
-  // Handle Azure DevOps HTTPS: https://dev.azure.com/org/project/_git/repo
-  const azureHttpsMatch = normalized.match(/^https?:\/\/dev\.azure\.com\/([^/]+)\/([^/]+)\/_git\/(.+)$/);
-  if (azureHttpsMatch) {
-    return `dev.azure.com/${azureHttpsMatch[1]}/${azureHttpsMatch[2]}/${azureHttpsMatch[3]}`;
-  }
-
   // Fallback: return as-is
-  return normalized;
+  return url;
 }
 
 /**
@@ -106,3 +255,17 @@ export function extractProjectName(normalizedUrl: string): string {
   const parts = normalizedUrl.split('/');
   return parts[parts.length - 1] || normalizedUrl;
 }
+
+/**
+ * Extract the organization (host and owner) from a normalized git URL
+ * github.com/our-org/repo -> github.com/our-org
+ * dev.azure.com/org/project/repo -> dev.azure.com/org
+ */
+export function extractOrgId(normalizedUrl: string): string | null {
+  if (normalizedUrl.startsWith('local:')) {
+    return null;
+  }
+
+  const parts = normalizedUrl.split('/');
+  return parts.length >= 3 && parts[0] && parts[1] ? `${parts[0]}/${parts[1]}` : null;
+}
@@ -0,0 +1,276 @@
+import { editDistance } from './fulltext.js';
+import type { MemoryIndexEntry } from './types.js';
+
+/**
+ * Structured recall queries, e.g.
+ *   tag:docker category:decision project:myrepo priority:high updated:>2025-01-01 -tag:deprecated "exact phrase"
+ *
+ * A query is a flat list of clauses that must all match. Bare words are
+ * free-text search terms, as are words whose prefix before ":" isn't a field
+ * ("error: build failed"); a leading "-" negates any clause; a comma-separated
+ * value matches any of its parts (tag:docker,k8s).
+ */
+export type QueryField = 'tag' | 'category' | 'project' | 'priority' | 'updated' | 'created';
+export type QueryOperator = '=' | '>' | '>=' | '<' | '<=';
+
+export type QueryClause =
+  | { type: 'term'; value: string; negated: boolean }
+  | { type: 'phrase'; value: string; negated: boolean }
+  | { type: 'field'; field: QueryField; op: QueryOperator; value: string; negated: boolean };
+
+export interface ParsedQuery {
+  clauses: QueryClause[];
+}
+
+const FIELDS: QueryField[] = ['tag', 'category', 'project', 'priority', 'updated', 'created'];
+const DATE_FIELDS: QueryField[] = ['updated', 'created'];
+const PRIORITIES = ['high', 'normal', 'low'];
+
+// Thrown for malformed queries; the message points at the offending token
+export class QuerySyntaxError extends Error {
+  constructor(reason: string, readonly query: string, readonly position: number, readonly length: number) {
+    super(
+      `Invalid query: ${reason}\n` +
+      `  ${query}\n` +
+      `  ${' '.repeat(position)}${'^'.repeat(Math.max(1, length))}`
+    );
+    this.name = 'QuerySyntaxError';
+  }
+}
+
+interface RawToken {
+  text: string;     // Token text without surrounding quotes
+  quoted: boolean;  // Was a "quoted phrase"
+  negated: boolean; // Had a leading "-"
+  start: number;    // Offset in the query (including any "-")
+  length: number;
+}
+
+// Split the query on whitespace, keeping quoted phrases together
+function lex(query: string): RawToken[] {
+  const tokens: RawToken[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    if (/\s/.test(query[i])) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    const negated = query[i] === '-' && i + 1 < query.length && !/\s/.test(query[i + 1]);
+    if (negated) i++;
+
+    if (query[i] === '"') {
+      const close = query.indexOf('"', i + 1);
+      if (close === -1) {
+        throw new QuerySyntaxError('unterminated quote', query, i, query.length - i);
+      }
+      tokens.push({ text: query.slice(i + 1, close), quoted: true, negated, start, length: close + 1 - start });
+      i = close + 1;
+      continue;
+    }
+
+    // A field value may itself be quoted: project:"my repo"
+    let end = i;
+    while (end < query.length && !/\s/.test(query[end])) {
+      if (query[end] === '"') {
+        const close = query.indexOf('"', end + 1);
+        if (close === -1) {
+          throw new QuerySyntaxError('unterminated quote', query, end, query.length - end);
+        }
+        end = close + 1;
+      } else {
+        end++;
+      }
+    }
+    tokens.push({ text: query.slice(i, end), quoted: false, negated, start, length: end - start });
+    i = end;
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse a date value: an ISO date/time prefix (2025, 2025-01, 2025-01-01...)
+ * or a relative age like 7d, 2w, 3m, 1y meaning "that long ago".
+ */
+export function parseDateValue(value: string, now: Date = new Date()): Date | null {
+  const relative = value.match(/^(\d+)([dwmy])$/i);
+  if (relative) {
+    const amount = parseInt(relative[1], 10);
+    const date = new Date(now);
+    switch (relative[2].toLowerCase()) {
+      case 'd': date.setDate(date.getDate() - amount); break;
+      case 'w': date.setDate(date.getDate() - amount * 7); break;
+      case 'm': date.setMonth(date.getMonth() - amount); break;
+      case 'y': date.setFullYear(date.getFullYear() - amount); break;
+    }
+    return date;
+  }
+
+  if (!/^\d{4}(-\d{2}(-\d{2}(T[\d:.]+Z?)?)?)?$/.test(value)) {
+    return null;
+  }
+  const date = new Date(value.length === 4 ? `${value}-01-01` : value.length === 7 ? `${value}-01` : value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Parse a recall query into clauses
+ */
+export function parseQuery(query: string): ParsedQuery {
+  const clauses: QueryClause[] = [];
+
+  for (const token of lex(query)) {
+    if (token.quoted) {
+      if (token.text.trim()) {
+        clauses.push({ type: 'phrase', value: token.text.trim(), negated: token.negated });
+      }
+      continue;
+    }
+
+    const colon = token.text.indexOf(':');
+    if (colon <= 0) {
+      clauses.push({ type: 'term', value: token.text, negated: token.negated });
+      continue;
+    }
+
+    const name = token.text.slice(0, colon).toLowerCase();
+    const valueStart = token.start + (token.negated ? 1 : 0) + colon + 1;
+    let rawValue = token.text.slice(colon + 1);
+
+    if (!FIELDS.includes(name as QueryField)) {
+      // Only a near miss of a field name with a value is taken as a typo
+      const isTypo = rawValue.length > 0 && FIELDS.some((f) => editDistance(name, f, 1) <= 1);
+      if (!isTypo) {
+        clauses.push({ type: 'term', value: token.text, negated: token.negated });
+        continue;
+      }
+      throw new QuerySyntaxError(
+        `unknown field "${name}" (use ${FIELDS.join(', ')}; quote text containing ":")`,
+        query,
+        token.start,
+        token.length
+      );
+    }
+    const field = name as QueryField;
+
+    let op: QueryOperator = '=';
+    const opMatch = rawValue.match(/^(>=|<=|>|<)/);
+    if (opMatch) {
+      if (!DATE_FIELDS.includes(field)) {
+        throw new QuerySyntaxError(
+          `"${opMatch[1]}" only works with ${DATE_FIELDS.join(' and ')}`,
+          query,
+          valueStart,
+          opMatch[1].length
+        );
+      }
+      op = opMatch[1] as QueryOperator;
+      rawValue = rawValue.slice(op.length);
+    }
+
+    const value = rawValue.replace(/^"(.*)"$/, '$1').trim();
+    if (!value) {
+      throw new QuerySyntaxError(`missing value for "${field}:"`, query, token.start, token.length);
+    }
+
+    if (field === 'priority' && !value.split(',').every((p) => PRIORITIES.includes(p.trim().toLowerCase()))) {
+      throw new QuerySyntaxError(
+        `priority must be ${PRIORITIES.join(', ')}`,
+        query,
+        valueStart,
+        rawValue.length
+      );
+    }
+
+    if (DATE_FIELDS.includes(field) && !parseDateValue(value)) {
+      throw new QuerySyntaxError(
+        `invalid date "${value}" (use YYYY-MM-DD or a relative age like 30d)`,
+        query,
+        valueStart + (op === '=' ? 0 : op.length),
+        value.length
+      );
+    }
+
+    clauses.push({ type: 'field', field, op, value, negated: token.negated });
+  }
+
+  return { clauses };
+}
+
+/**
+ * Free text to rank with: positive terms and phrases
+ */
+export function getSearchText(parsed: ParsedQuery): string {
+  return parsed.clauses
+    .filter((c) => !c.negated && (c.type === 'term' || c.type === 'phrase'))
+    .map((c) => c.value)
+    .join(' ');
+}
+
+// Does the query name a project explicitly (which overrides current-project scoping)?
+export function hasProjectClause(parsed: ParsedQuery): boolean {
+  return parsed.clauses.some((c) => c.type === 'field' && c.field === 'project' && !c.negated);
+}
+
+function compareDates(actual: string, op: QueryOperator, value: string): boolean {
+  // Absolute dates without an operator match by prefix (updated:2025-01 = that month)
+  if (op === '=' && !/^\d+[dwmy]$/i.test(value)) {
+    return actual.startsWith(value);
+  }
+
+  const target = parseDateValue(value)!.getTime();
+  const time = new Date(actual).getTime();
+  switch (op) {
+    case '>': return time > target;
+    case '>=': return time >= target;
+    case '<': return time < target;
+    case '<=': return time <= target;
+    default: return time >= target; // Relative age without operator: "within the last N"
+  }
+}
+
+function matchesProject(entry: MemoryIndexEntry, value: string): boolean {
+  const wanted = value.toLowerCase();
+  if (wanted === 'global') return !entry.projectId && !entry.orgId;
+  if (wanted === '*') return true;
+  if (!entry.projectId) return (entry.orgId || '').toLowerCase() === wanted;
+
+  const projectId = entry.projectId.toLowerCase();
+  return (
+    projectId === wanted ||
+    projectId.endsWith(`/${wanted}`) ||
+    (entry.projectName || '').toLowerCase() === wanted
+  );
+}
+
+function matchesField(entry: MemoryIndexEntry, clause: Extract<QueryClause, { type: 'field' }>): boolean {
+  const values = clause.value.toLowerCase().split(',').map((v) => v.trim()).filter(Boolean);
+  switch (clause.field) {
+    case 'tag':
+      return entry.tags.some((tag) => values.includes(tag.toLowerCase()));
+    case 'category':
+      return values.includes(entry.category.toLowerCase());
+    case 'priority':
+      return values.includes(entry.priority || 'normal');
+    case 'project':
+      return values.some((value) => matchesProject(entry, value));
+    case 'updated':
+      return compareDates(entry.updated, clause.op, clause.value);
+    case 'created':
+      return compareDates(entry.created, clause.op, clause.value);
+  }
+}
+
+/**
+ * Check an index entry against every field clause (terms and phrases are
+ * evaluated against the full text by the caller)
+ */
+export function matchesFieldClauses(entry: MemoryIndexEntry, parsed: ParsedQuery): boolean {
+  return parsed.clauses.every((clause) => {
+    if (clause.type !== 'field') return true;
+    return matchesField(entry, clause) !== clause.negated;
+  });
+}
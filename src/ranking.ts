@@ -0,0 +1,156 @@
+import { readStorageFile } from './storage.js';
+import type { Config, MemoryIndexEntry } from './types.js';
+
+/**
+ * Ranking model for recall. The text score (BM25 and/or semantic similarity)
+ * is adjusted for category and priority, then scaled by recency, usage,
+ * staleness and scope. Weights can be overridden in ranking.json in the storage folder.
+ */
+export interface RankingWeights {
+  categoryBonus: number;         // Added when the query text names the memory's category
+  highPriorityBoost: number;     // Multiplier for high priority
+  highPriorityBonus: number;     // Flat bonus so high-priority memories always surface
+  lowPriorityFactor: number;     // Multiplier for low priority
+  recencyWeight: number;         // Share of the score that depends on age (0 disables)
+  recencyHalfLifeDays: number;   // Age at which the recency part is halved
+  accessWeight: number;          // Boost per doubling of the recall count (0 disables)
+  stalePenalty: number;          // Share of the score removed from stale memories (0 disables)
+  staleDays: number;             // Days without updates before a memory counts as stale
+  subPathBoost: number;          // Multiplier for memories scoped to the current sub-path of a monorepo
+  otherSubPathFactor: number;    // Multiplier for memories scoped to another sub-path of the repo
+  orgFactor: number;             // Multiplier for org-wide memories while in one of the org's repos
+  globalFactor: number;          // Multiplier for global memories while in a project
+}
+
+/**
+ * How a memory's scope relates to where recall runs: the current sub-path
+ * (or a parent of it), the whole repo, another sub-path, the repo's
+ * organization, or global
+ */
+export type ScopeMatch = 'subPath' | 'repo' | 'otherSubPath' | 'org' | 'global';
+
+export interface ScoreBreakdown {
+  text: number;     // BM25 / semantic score (1 for filter-only queries)
+  category: number; // Category bonus added
+  priority: number; // Score after the priority adjustment
+  recency: number;  // Recency multiplier
+  access: number;   // Usage multiplier
+  stale: number;    // Staleness multiplier
+  scope: number;    // Scope multiplier
+  total: number;
+}
+
+// Score adjustments are on the BM25 scale (a good single-term match scores roughly 1-4)
+export const DEFAULT_RANKING: RankingWeights = {
+  categoryBonus: 1,
+  highPriorityBoost: 1.5,
+  highPriorityBonus: 1,
+  lowPriorityFactor: 0.7,
+  recencyWeight: 0.3,
+  recencyHalfLifeDays: 180,
+  accessWeight: 0.1,
+  stalePenalty: 0.2,
+  staleDays: 90,
+  subPathBoost: 1.3,
+  otherSubPathFactor: 0.8,
+  orgFactor: 0.95,
+  globalFactor: 0.9,
+};
+
+const RANKING_FILE = 'ranking.json';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Load ranking weights: the defaults, overridden by any numeric values in
+ * ranking.json
+ */
+export async function loadRankingWeights(config: Config): Promise<RankingWeights> {
+  const weights: RankingWeights = { ...DEFAULT_RANKING };
+
+  const content = await readStorageFile(config, RANKING_FILE);
+  if (content) {
+    try {
+      const custom = JSON.parse(content) as Partial<Record<keyof RankingWeights, unknown>>;
+      for (const key of Object.keys(DEFAULT_RANKING) as (keyof RankingWeights)[]) {
+        const value = custom[key];
+        if (typeof value === 'number' && Number.isFinite(value) && value >= 0) {
+          weights[key] = value;
+        }
+      }
+    } catch {
+      // A malformed file falls back to the defaults
+    }
+  }
+
+  return weights;
+}
+
+/**
+ * Combine the text score with category, priority, recency, usage, staleness
+ * and scope into a final score
+ */
+export function rankEntry(
+  entry: MemoryIndexEntry,
+  textScore: number,
+  options: {
+    weights: RankingWeights;
+    categoryMatch: boolean;
+    accessCount: number;
+    isStale: boolean;
+    scope?: ScopeMatch;
+    now?: number;
+  }
+): ScoreBreakdown {
+  const { weights, categoryMatch, accessCount, isStale, scope = 'repo', now = Date.now() } = options;
+
+  const category = categoryMatch ? weights.categoryBonus : 0;
+  let priority = textScore + category;
+  if (entry.priority === 'high') {
+    priority = priority * weights.highPriorityBoost + weights.highPriorityBonus;
+  } else if (entry.priority === 'low') {
+    priority *= weights.lowPriorityFactor;
+  }
+
+  // Exponential decay on the recency part only, so old memories keep most of their score
+  const ageDays = Math.max(0, (now - new Date(entry.updated).getTime()) / DAY_MS);
+  const decay = weights.recencyHalfLifeDays > 0 ? Math.pow(0.5, ageDays / weights.recencyHalfLifeDays) : 1;
+  const recencyWeight = Math.min(1, weights.recencyWeight);
+  const recency = 1 - recencyWeight + recencyWeight * decay;
+
+  const access = 1 + weights.accessWeight * Math.log2(1 + accessCount);
+
+  const stale = isStale ? 1 - Math.min(1, weights.stalePenalty) : 1;
+
+  const scopeFactor =
+    scope === 'subPath' ? weights.subPathBoost
+    : scope === 'otherSubPath' ? weights.otherSubPathFactor
+    : scope === 'org' ? weights.orgFactor
+    : scope === 'global' ? weights.globalFactor
+    : 1;
+
+  return {
+    text: textScore,
+    category,
+    priority,
+    recency,
+    access,
+    stale,
+    scope: scopeFactor,
+    total: priority * recency * access * stale * scopeFactor,
+  };
+}
+
+/**
+ * One-line explanation of a score
+ */
+export function formatScoreBreakdown(b: ScoreBreakdown): string {
+  const parts = [`text ${b.text.toFixed(2)}`];
+  if (b.category) parts.push(`category +${b.category.toFixed(2)}`);
+  if (b.priority !== b.text + b.category) parts.push(`priority → ${b.priority.toFixed(2)}`);
+  parts.push(`recency ×${b.recency.toFixed(2)}`);
+  parts.push(`usage ×${b.access.toFixed(2)}`);
+  if (b.stale !== 1) parts.push(`stale ×${b.stale.toFixed(2)}`);
+  if (b.scope !== 1) parts.push(`scope ×${b.scope.toFixed(2)}`);
+  return `${b.total.toFixed(2)} = ${parts.join(', ')}`;
+}
@@ -0,0 +1,160 @@
+import { existsSync, readFileSync, statSync } from 'fs';
+import { join } from 'path';
+import { validateGlob } from './glob.js';
+import type { FilePatternMapping } from './triggers.js';
+
+/**
+ * Per-repository memory settings, checked in at the git root so a team
+ * shares the same memory behavior
+ */
+export interface RepoConfig {
+  projectId?: string;     // Project ID to use instead of the one derived from the remote
+  projectName?: string;   // Display name to use instead of the repo name
+  aliases?: string[];     // Other project IDs whose memories belong to this project
+  remotePriority?: string[]; // Remote names preferred for the project ID, in order
+  patterns?: FilePatternMapping[]; // Extra trigger patterns for get_context
+  defaultTags?: string[];  // Added to every project memory stored from this repo
+  defaultCategory?: string; // Used when remember is called without a category
+  context?: {
+    limit?: number;     // Default get_context limit
+    maxTokens?: number; // Default get_context token budget
+  };
+}
+
+export interface LoadedRepoConfig {
+  path: string | null; // Config file path, if one exists
+  config: RepoConfig;
+  warnings: string[];  // Settings that were ignored, and why
+}
+
+export const REPO_CONFIG_FILE = '.claude-memory.json';
+
+// Parsed configs per file, reused until the file changes
+const cache = new Map<string, { mtimeMs: number; loaded: LoadedRepoConfig }>();
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === 'string');
+}
+
+function isPositiveNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+// Keep the valid settings, with a warning for each one that isn't
+function sanitize(raw: unknown): { config: RepoConfig; warnings: string[] } {
+  const config: RepoConfig = {};
+  const warnings: string[] = [];
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { config, warnings: ['The file must contain a JSON object'] };
+  }
+  const data = raw as Record<string, unknown>;
+
+  for (const key of ['projectId', 'projectName', 'defaultCategory'] as const) {
+    if (data[key] === undefined) continue;
+    if (typeof data[key] === 'string' && (data[key] as string).trim()) {
+      config[key] = (data[key] as string).trim();
+    } else {
+      warnings.push(`"${key}" must be a non-empty string`);
+    }
+  }
+
+  for (const key of ['aliases', 'remotePriority', 'defaultTags'] as const) {
+    if (data[key] === undefined) continue;
+    if (isStringArray(data[key])) {
+      config[key] = (data[key] as string[]).map((s) => s.trim()).filter(Boolean);
+    } else {
+      warnings.push(`"${key}" must be an array of strings`);
+    }
+  }
+
+  if (data.patterns !== undefined) {
+    if (!Array.isArray(data.patterns)) {
+      warnings.push('"patterns" must be an array');
+    } else {
+      config.patterns = [];
+      for (const item of data.patterns as Array<Partial<FilePatternMapping>>) {
+        if (typeof item?.pattern !== 'string' || !isStringArray(item.tags) || item.tags.length === 0) {
+          warnings.push('Each pattern needs a "pattern" string and a non-empty "tags" array');
+          continue;
+        }
+        const syntaxError = validateGlob(item.pattern);
+        if (syntaxError) {
+          warnings.push(`Pattern "${item.pattern}" ignored: ${syntaxError}`);
+          continue;
+        }
+        config.patterns.push({
+          pattern: item.pattern,
+          tags: item.tags,
+          description: typeof item.description === 'string' ? item.description : `Repo: ${item.pattern}`,
+          ...(typeof item.category === 'string' ? { category: item.category } : {}),
+        });
+      }
+    }
+  }
+
+  if (data.context !== undefined) {
+    const context = data.context as Record<string, unknown> | null;
+    if (!context || typeof context !== 'object') {
+      warnings.push('"context" must be an object');
+    } else {
+      config.context = {};
+      for (const key of ['limit', 'maxTokens'] as const) {
+        if (context[key] === undefined) continue;
+        if (isPositiveNumber(context[key])) {
+          config.context[key] = Math.floor(context[key] as number);
+        } else {
+          warnings.push(`"context.${key}" must be a positive number`);
+        }
+      }
+    }
+  }
+
+  return { config, warnings };
+}
+
+/**
+ * Read .claude-memory.json from a git root. Missing or invalid files give an
+ * empty config; invalid settings are skipped and reported in warnings.
+ */
+export function readRepoConfig(gitRoot: string | null): LoadedRepoConfig {
+  if (!gitRoot) {
+    return { path: null, config: {}, warnings: [] };
+  }
+
+  const filePath = join(gitRoot, REPO_CONFIG_FILE);
+  if (!existsSync(filePath)) {
+    return { path: null, config: {}, warnings: [] };
+  }
+
+  try {
+    const { mtimeMs } = statSync(filePath);
+    const cached = cache.get(filePath);
+    if (cached && cached.mtimeMs === mtimeMs) {
+      return cached.loaded;
+    }
+
+    let loaded: LoadedRepoConfig;
+    try {
+      const { config, warnings } = sanitize(JSON.parse(readFileSync(filePath, 'utf-8')));
+      loaded = { path: filePath, config, warnings };
+    } catch (error) {
+      loaded = {
+        path: filePath,
+        config: {},
+        warnings: [`Invalid JSON: ${error instanceof Error ? error.message : 'parse error'}`],
+      };
+    }
+    cache.set(filePath, { mtimeMs, loaded });
+    return loaded;
+  } catch {
+    return { path: null, config: {}, warnings: [] };
+  }
+}
+
+/**
+ * The repository config for a git root (empty outside a repository)
+ */
+export function loadRepoConfig(gitRoot: string | null): RepoConfig {
+  return readRepoConfig(gitRoot).config;
+}
@@ -1,13 +1,44 @@
-import { listMemories, getMemory } from './memory.js';
-import { detectProjectContext } from './project.js';
+import { listMemories, getMemory, extractTitle } from './memory.js';
+import { detectProjectContext, extractOrgId } from './project.js';
+import { resolveProjectIds } from './aliases.js';
+import { withIndexLock } from './storage.js';
+import {
+  readFullTextIndex,
+  writeFullTextIndex,
+  addToIndex,
+  removeFromIndex,
+  scoreBM25,
+  expandQueryTerms,
+  tokenize,
+  type FullTextIndex,
+} from './fulltext.js';
+import { loadSynonyms, getSynonyms, type SynonymMap } from './synonyms.js';
+import {
+  readEmbeddingCache,
+  writeEmbeddingCache,
+  embedDocument,
+  embedText,
+  cosineSimilarity,
+  getEmbeddingModel,
+  type EmbeddingCache,
+} from './embeddings.js';
+import { buildExcerpt } from './excerpts.js';
+import { loadRankingWeights, rankEntry, type ScoreBreakdown, type ScopeMatch } from './ranking.js';
+import { readAccessStats } from './access.js';
+import { paginate, cursorScope, cursorSnapshot, computeFacets, type Facets, type Page, type SortKey } from './pagination.js';
+import { parseQuery, getSearchText, hasProjectClause, matchesFieldClauses } from './query.js';
 import type { Config, Memory, MemoryCategory, MemoryIndexEntry } from './types.js';
 
 export interface ProjectFilterOptions {
-  projectId?: string | null;  // Filter to specific project (null = detect current)
+  projectId?: string | null;  // Filter to specific project (undefined = detect current, null = global only)
+  orgId?: string | null;      // Include this organization's memories (undefined = the project's organization)
   includeGlobal?: boolean;    // Include global memories (default: true)
   allProjects?: boolean;      // Ignore project filtering entirely
 }
 
+// keyword: BM25 only; semantic: embedding similarity only; hybrid: both blended
+export type SearchMode = 'keyword' | 'semantic' | 'hybrid';
+
 export interface StalenessOptions {
   includeExpired?: boolean;   // Include expired memories (default: false)
   staleDays?: number;         // Days after which a memory is considered stale (default: 90)
@@ -53,14 +84,16 @@ export function getStalenessInfo(entry: { updated: string; expiresAt?: string })
   return null;
 }
 
-interface SearchResult {
+export interface SearchResult {
   entry: MemoryIndexEntry;
   score: number;
+  breakdown?: ScoreBreakdown; // How the score was made up
   memory?: Memory;
 }
 
 // Filter entries by project context
 async function filterByProject(
+  config: Config,
   entries: MemoryIndexEntry[],
   options: ProjectFilterOptions & StalenessOptions
 ): Promise<MemoryIndexEntry[]> {
@@ -78,9 +111,15 @@ async function filterByProject(
 
   // Detect current project if not specified
   let projectId = options.projectId;
+  let orgId = options.orgId;
+  let aliases: string[] = [];
   if (projectId === undefined) {
     const context = await detectProjectContext();
     projectId = context.projectId;
+    aliases = context.aliases;
+    orgId = orgId === undefined ? context.orgId : orgId;
+  } else if (orgId === undefined) {
+    orgId = projectId ? extractOrgId(projectId) : null;
   }
 
   // If no project context and not including global, return empty
@@ -88,9 +127,17 @@ async function filterByProject(
     return [];
   }
 
+  // Aliases (registry and .claude-memory.json) count as the same project
+  const projectIds = projectId ? await resolveProjectIds(config, projectId, aliases) : [];
+
   return entries.filter((entry) => {
+    // Org-wide memories apply to every repo of their organization
+    if (!entry.projectId && entry.orgId) {
+      return entry.orgId === orgId;
+    }
+
     const entryIsGlobal = !entry.projectId;
-    const isCurrentProject = entry.projectId === projectId;
+    const isCurrentProject = projectIds.includes(entry.projectId!);
 
     if (entryIsGlobal) {
       return includeGlobal;
@@ -99,107 +146,382 @@ async function filterByProject(
   });
 }
 
-// Simple text matching score
-function calculateScore(text: string, query: string): number {
-  const lowerText = text.toLowerCase();
-  const lowerQuery = query.toLowerCase();
-  const queryWords = lowerQuery.split(/\s+/).filter(Boolean);
+// Where a search runs, for scope ranking
+interface ScopeContext {
+  projectIds: string[];   // Current project and its aliases
+  subPath: string | null; // Current directory relative to the git root
+}
 
-  let score = 0;
+// Scope ranking only applies when searching from the detected current project
+async function getScopeContext(config: Config, options: ProjectFilterOptions): Promise<ScopeContext | null> {
+  if (options.projectId !== undefined) {
+    return null;
+  }
+  const context = await detectProjectContext();
+  if (!context.projectId) {
+    return null;
+  }
+  return {
+    projectIds: await resolveProjectIds(config, context.projectId, context.aliases),
+    subPath: context.subPath,
+  };
+}
 
-  // Exact phrase match (highest score)
-  if (lowerText.includes(lowerQuery)) {
-    score += 100;
+// A memory scoped to a sub-path applies there and in every directory below it
+function matchScope(entry: MemoryIndexEntry, current: ScopeContext | null): ScopeMatch {
+  if (!current) return 'repo';
+  if (!entry.projectId) return entry.orgId ? 'org' : 'global';
+  if (!entry.subPath || !current.projectIds.includes(entry.projectId)) return 'repo';
+  if (current.subPath && (current.subPath === entry.subPath || current.subPath.startsWith(`${entry.subPath}/`))) {
+    return 'subPath';
   }
+  return 'otherSubPath';
+}
+
+const SCOPE_ORDER: Record<ScopeMatch, number> = { subPath: 0, repo: 1, org: 2, global: 3, otherSubPath: 4 };
+
+// Semantic similarity (cosine, 0-1) is scaled onto the BM25 range before blending
+const SEMANTIC_SCALE = 4;
+const MIN_SIMILARITY = 0.05;  // Below this the overlap is only shared character trigrams
+const HYBRID_SEMANTIC_WEIGHT = 0.5;
+
+// Cosine similarity from which a new memory is reported as a likely duplicate
+const DUPLICATE_THRESHOLD = 0.6;
+
+/**
+ * Load the full-text index, first bringing it in line with the memory index.
+ * Memories added, changed or removed outside this process (OneDrive sync,
+ * rebuild_index, older versions) are detected by their updated timestamp.
+ */
+async function loadSyncedFullTextIndex(
+  config: Config,
+  entries: MemoryIndexEntry[]
+): Promise<FullTextIndex> {
+  const needsSync = (index: FullTextIndex) => {
+    const liveIds = new Set(entries.map((e) => e.id));
+    return {
+      stale: entries.filter((e) => index.docs[e.id]?.updated !== e.updated),
+      removed: Object.keys(index.docs).filter((id) => !liveIds.has(id)),
+    };
+  };
+
+  const current = await readFullTextIndex(config);
+  const { stale, removed } = needsSync(current);
+  if (stale.length === 0 && removed.length === 0) {
+    return current;
+  }
+
+  return withIndexLock(config, async () => {
+    // Re-read under the lock in case another session just synced it
+    const index = await readFullTextIndex(config);
+    const pending = needsSync(index);
 
-  // Individual word matches
-  for (const word of queryWords) {
-    if (lowerText.includes(word)) {
-      score += 10;
-      // Bonus for word appearing multiple times
-      const matches = lowerText.split(word).length - 1;
-      score += Math.min(matches - 1, 5) * 2;
+    for (const id of pending.removed) {
+      removeFromIndex(index, id);
+    }
+    for (const entry of pending.stale) {
+      const memory = await getMemory(config, entry.id);
+      if (memory) {
+        addToIndex(index, { ...memory, updated: entry.updated });
+      } else {
+        removeFromIndex(index, entry.id);
+      }
     }
+
+    await writeFullTextIndex(config, index);
+    return index;
+  });
+}
+
+/**
+ * Load cached memory embeddings, embedding any memory that is new or changed
+ * since it was last cached. Vectors are computed lazily on the first semantic
+ * search rather than on every write.
+ */
+async function loadSyncedEmbeddings(
+  config: Config,
+  entries: MemoryIndexEntry[],
+  synonyms: SynonymMap
+): Promise<EmbeddingCache> {
+  const model = getEmbeddingModel(synonyms);
+  const needsSync = (cache: EmbeddingCache) => {
+    const liveIds = new Set(entries.map((e) => e.id));
+    return {
+      stale: entries.filter((e) => cache.vectors[e.id]?.updated !== e.updated),
+      removed: Object.keys(cache.vectors).filter((id) => !liveIds.has(id)),
+    };
+  };
+
+  const current = await readEmbeddingCache(config, model);
+  const { stale, removed } = needsSync(current);
+  if (stale.length === 0 && removed.length === 0) {
+    return current;
   }
 
-  // Title match bonus
-  return score;
+  return withIndexLock(config, async () => {
+    // Re-read under the lock in case another session just synced it
+    const cache = await readEmbeddingCache(config, model);
+    const pending = needsSync(cache);
+
+    for (const id of pending.removed) {
+      delete cache.vectors[id];
+    }
+    for (const entry of pending.stale) {
+      try {
+        const memory = await getMemory(config, entry.id);
+        if (memory) {
+          cache.vectors[entry.id] = { updated: entry.updated, vector: embedDocument(memory, synonyms) };
+        } else {
+          delete cache.vectors[entry.id];
+        }
+      } catch (error) {
+        // One bad memory mustn't break semantic recall for the whole store: it
+        // gets an empty vector (never similar) until it changes
+        console.error(`Could not embed memory ${entry.id}: ${error instanceof Error ? error.message : error}`);
+        cache.vectors[entry.id] = { updated: entry.updated, vector: {} };
+      }
+    }
+
+    await writeEmbeddingCache(config, cache);
+    return cache;
+  });
+}
+
+export interface SearchOptions extends ProjectFilterOptions {
+  category?: MemoryCategory;
+  tags?: string[];
+  limit?: number;
+  includeFullContent?: boolean;
+  mode?: SearchMode;
+  cursor?: string; // From a previous page's nextCursor
+}
+
+export interface SearchPage extends Page<SearchResult> {
+  facets: Facets;  // Breakdown of all matches, not just this page
+  terms: string[]; // Index terms the query matched on (for highlighting)
+}
+
+// Order: score descending, then newest, then id so every result has a fixed place
+function compareResultKeys(a: SortKey, b: SortKey): number {
+  return (
+    (b[0] as number) - (a[0] as number) ||
+    String(b[1]).localeCompare(String(a[1])) ||
+    String(a[2]).localeCompare(String(b[2]))
+  );
+}
+
+/**
+ * Search text for words taken from data (tags, file names) rather than typed
+ * by the user. Tokenized, so ":", quotes or a leading "-" in them are never
+ * read as query syntax.
+ */
+export function toSearchText(words: string[]): string {
+  return [...new Set(tokenize(words.join(' ')))].join(' ');
 }
 
 export async function searchMemories(
   config: Config,
   query: string,
-  options: {
-    category?: MemoryCategory;
-    tags?: string[];
-    limit?: number;
-    includeFullContent?: boolean;
-  } & ProjectFilterOptions = {}
+  options: SearchOptions = {}
 ): Promise<SearchResult[]> {
-  const { category, tags, limit = 10, includeFullContent = false } = options;
-
-  // Get all memories (filtered by category if specified)
-  let entries = await listMemories(config, category);
-
-  // Filter by project
-  entries = await filterByProject(entries, options);
+  return (await searchMemoriesPage(config, query, options)).items;
+}
 
-  // Filter by tags if specified
+/**
+ * Search and return one page of results, with the total match count and
+ * facet counts over all matches
+ */
+export async function searchMemoriesPage(
+  config: Config,
+  query: string,
+  options: SearchOptions = {}
+): Promise<SearchPage> {
+  const { category, tags, limit = 10, includeFullContent = false, mode = 'keyword', cursor } = options;
+
+  // Parse the structured query; the category and tags options become clauses too
+  const parsed = parseQuery(query);
+  if (category) {
+    parsed.clauses.push({ type: 'field', field: 'category', op: '=', value: category, negated: false });
+  }
   if (tags && tags.length > 0) {
-    entries = entries.filter((entry) =>
-      tags.some((tag) => entry.tags.includes(tag.toLowerCase()))
-    );
+    parsed.clauses.push({ type: 'field', field: 'tag', op: '=', value: tags.join(','), negated: false });
   }
 
-  // Score each entry
-  const results: SearchResult[] = [];
+  let entries = await listMemories(config);
 
-  for (const entry of entries) {
-    // Calculate score based on title, snippet, tags, and category
-    let score = 0;
+  // Filter by project (an explicit project: clause replaces current-project scoping)
+  entries = await filterByProject(config, entries, hasProjectClause(parsed) ? { ...options, allProjects: true } : options);
 
-    // Title is most important
-    score += calculateScore(entry.title, query) * 2;
+  // Filter by field clauses
+  entries = entries.filter((entry) => matchesFieldClauses(entry, parsed));
 
-    // Snippet/content
-    score += calculateScore(entry.snippet, query);
+  const fullText = await loadSyncedFullTextIndex(config, await listMemories(config));
 
-    // Tags
-    const tagString = entry.tags.join(' ');
-    score += calculateScore(tagString, query) * 1.5;
+  // Exclude negated terms (all of the term's tokens present in the memory)
+  for (const clause of parsed.clauses) {
+    if (clause.type !== 'term' || !clause.negated) continue;
+    const terms = tokenize(clause.value);
+    if (terms.length === 0) continue;
+    entries = entries.filter((entry) => !terms.every((term) => fullText.postings[term]?.[entry.id]));
+  }
 
-    // Category match
-    if (entry.category.toLowerCase().includes(query.toLowerCase())) {
-      score += 20;
+  // Phrases must appear verbatim in the title or body
+  const phrases = parsed.clauses.filter((c) => c.type === 'phrase');
+  if (phrases.length > 0) {
+    const kept: MemoryIndexEntry[] = [];
+    for (const entry of entries) {
+      const memory = await getMemory(config, entry.id);
+      const text = `${entry.title}\n${memory?.content ?? entry.snippet}`.toLowerCase();
+      if (phrases.every((p) => text.includes(p.value.toLowerCase()) !== p.negated)) {
+        kept.push(entry);
+      }
     }
+    entries = kept;
+  }
 
-    // Priority boost/penalty
-    if (entry.priority === 'high') {
-      score *= 1.5; // 50% boost for high priority
-      score += 50;  // Plus flat bonus to ensure they surface
-    } else if (entry.priority === 'low') {
-      score *= 0.7; // 30% penalty for low priority
+  // Rank by BM25 over the full memory content; synonyms, stems and near-miss
+  // spellings of each term also match, at lower weight than the exact word
+  const searchText = getSearchText(parsed);
+  const synonyms = await loadSynonyms(config);
+  const queryTerms = expandQueryTerms(fullText, tokenize(searchText), (term) => getSynonyms(synonyms, term));
+  const bm25 = scoreBM25(fullText, queryTerms);
+
+  // Cosine similarity between the query and each memory's embedding
+  const similarity = new Map<string, number>();
+  if (searchText && mode !== 'keyword') {
+    const embeddings = await loadSyncedEmbeddings(config, await listMemories(config), synonyms);
+    const queryVector = embedText(searchText, synonyms);
+    for (const entry of entries) {
+      const cached = embeddings.vectors[entry.id];
+      const value = cached ? cosineSimilarity(queryVector, cached.vector) : 0;
+      if (value >= MIN_SIMILARITY) {
+        similarity.set(entry.id, value);
+      }
     }
+  }
 
-    if (score > 0) {
-      results.push({ entry, score });
+  const textScore = (id: string): number => {
+    const keyword = bm25.get(id) || 0;
+    const semantic = (similarity.get(id) || 0) * SEMANTIC_SCALE;
+    switch (mode) {
+      case 'semantic': return semantic;
+      case 'hybrid': return (1 - HYBRID_SEMANTIC_WEIGHT) * keyword + HYBRID_SEMANTIC_WEIGHT * semantic;
+      default: return keyword;
+    }
+  };
+
+  // Score each entry. Later pages rank as of the first page's time, so scores
+  // (and with them the cursor position) don't drift as recency decays.
+  const weights = await loadRankingWeights(config);
+  const scopeContext = await getScopeContext(config, options);
+  const now = cursorSnapshot(cursor) ?? Date.now();
+
+  const scoreEntries = (accessCount: (id: string) => number): SearchResult[] => {
+    const scored: SearchResult[] = [];
+    for (const entry of entries) {
+      // Filter-only queries keep every match, ordered by priority, recency and usage
+      const breakdown = rankEntry(entry, searchText ? textScore(entry.id) : 1, {
+        weights,
+        categoryMatch: !!searchText && entry.category.toLowerCase().includes(searchText.toLowerCase()),
+        accessCount: accessCount(entry.id),
+        isStale: isStale(entry, weights.staleDays),
+        scope: matchScope(entry, scopeContext),
+        now,
+      });
+
+      if (breakdown.total > 0) {
+        scored.push({ entry, score: breakdown.total, breakdown });
+      }
     }
+    return scored;
+  };
+
+  // Recalling a page records access to it, which would move results between
+  // pages. The usage boost only applies when every match fits on one page.
+  let results = scoreEntries(() => 0);
+  if (!cursor && results.length <= limit) {
+    const accessStats = await readAccessStats(config);
+    results = scoreEntries((id) => accessStats.memories[id]?.count || 0);
   }
 
-  // Sort by score descending
-  results.sort((a, b) => b.score - a.score);
-
-  // Limit results
-  const limitedResults = results.slice(0, limit);
+  const page = paginate(
+    results,
+    (r) => [r.score, r.entry.updated, r.entry.id],
+    compareResultKeys,
+    {
+      cursor,
+      limit,
+      snapshot: now,
+      scope: cursorScope({
+        query,
+        category,
+        tags,
+        mode,
+        projectId: options.projectId,
+        includeGlobal: options.includeGlobal,
+        allProjects: options.allProjects,
+      }),
+    }
+  );
 
   // Optionally fetch full content
   if (includeFullContent) {
-    for (const result of limitedResults) {
+    for (const result of page.items) {
       result.memory = (await getMemory(config, result.entry.id)) || undefined;
     }
   }
 
-  return limitedResults;
+  return {
+    ...page,
+    facets: computeFacets(results.map((r) => r.entry)),
+    terms: [...new Set(queryTerms.flatMap((t) => t.variants.map((v) => v.term)))],
+  };
+}
+
+/**
+ * Find existing memories whose content is close to new content, for duplicate
+ * detection. Only memories in the same scope are compared: the given project,
+ * the given organization's org-wide memories, or global memories when both
+ * are null.
+ */
+export async function findSimilarMemories(
+  config: Config,
+  content: string,
+  options: {
+    projectId: string | null;
+    orgId?: string | null;
+    tags?: string[];
+    threshold?: number;
+    limit?: number;
+  }
+): Promise<SearchResult[]> {
+  const { projectId, orgId = null, tags = [], threshold = DUPLICATE_THRESHOLD, limit = 3 } = options;
+
+  const allEntries = await listMemories(config);
+  const entries = allEntries.filter(
+    (entry) =>
+      !isExpired(entry) &&
+      (entry.projectId || null) === projectId &&
+      (entry.projectId ? null : entry.orgId || null) === orgId
+  );
+  if (entries.length === 0) return [];
+
+  const synonyms = await loadSynonyms(config);
+  const embeddings = await loadSyncedEmbeddings(config, allEntries, synonyms);
+  // Embedded the same way as stored memories so scores are comparable
+  const vector = embedDocument({ id: '', title: extractTitle(content), tags, content, updated: '' }, synonyms);
+
+  const results: SearchResult[] = [];
+  for (const entry of entries) {
+    const cached = embeddings.vectors[entry.id];
+    const score = cached ? cosineSimilarity(vector, cached.vector) : 0;
+    if (score >= threshold) {
+      results.push({ entry, score });
+    }
+  }
+
+  results.sort((a, b) => b.score - a.score);
+  return results.slice(0, limit);
 }
 
 export async function recallByCategory(
@@ -211,10 +533,15 @@ export async function recallByCategory(
   let entries = await listMemories(config, category);
 
   // Filter by project
-  entries = await filterByProject(entries, projectOptions);
+  entries = await filterByProject(config, entries, projectOptions);
 
-  // Sort by most recent first
-  entries.sort((a, b) => new Date(b.updated).getTime() - new Date(a.updated).getTime());
+  // Current sub-path first, then repo-wide, then org-wide, then global; most recent first within each
+  const scopeContext = await getScopeContext(config, projectOptions);
+  entries.sort(
+    (a, b) =>
+      SCOPE_ORDER[matchScope(a, scopeContext)] - SCOPE_ORDER[matchScope(b, scopeContext)] ||
+      new Date(b.updated).getTime() - new Date(a.updated).getTime()
+  );
 
   const memories: Memory[] = [];
   for (const entry of entries.slice(0, limit)) {
@@ -235,10 +562,15 @@ export async function recallRecent(
   let entries = await listMemories(config);
 
   // Filter by project
-  entries = await filterByProject(entries, projectOptions);
+  entries = await filterByProject(config, entries, projectOptions);
 
-  // Sort by most recent first
-  entries.sort((a, b) => new Date(b.updated).getTime() - new Date(a.updated).getTime());
+  // Current sub-path first, then repo-wide, then org-wide, then global; most recent first within each
+  const scopeContext = await getScopeContext(config, projectOptions);
+  entries.sort(
+    (a, b) =>
+      SCOPE_ORDER[matchScope(a, scopeContext)] - SCOPE_ORDER[matchScope(b, scopeContext)] ||
+      new Date(b.updated).getTime() - new Date(a.updated).getTime()
+  );
 
   const memories: Memory[] = [];
   for (const entry of entries.slice(0, limit)) {
@@ -251,8 +583,18 @@ export async function recallRecent(
   return memories;
 }
 
-// Format memories for display
-export function formatMemoriesForDisplay(memories: Memory[]): string {
+// Format memories for display. With excerpt options, each body is cut down to
+// the passages matching the terms instead of being shown in full; scores adds
+// a score explanation line per memory id.
+export function formatMemoriesForDisplay(
+  memories: Memory[],
+  options: {
+    excerpt?: { terms: string[]; maxChars?: number };
+    scores?: Map<string, string>;
+  } = {}
+): string {
+  const { excerpt, scores } = options;
+
   if (memories.length === 0) {
     return 'No memories found.';
   }
@@ -260,11 +602,18 @@ export function formatMemoriesForDisplay(memories: Memory[]): string {
   return memories
     .map((m) => {
       const tagStr = m.tags.length > 0 ? ` [${m.tags.join(', ')}]` : '';
-      const projectStr = m.projectName ? `\n**Project:** ${m.projectName}` : '\n**Project:** (global)';
+      const subPathStr = m.subPath ? ` (${m.subPath})` : '';
+      const projectStr = m.projectName
+        ? `\n**Project:** ${m.projectName}${subPathStr}`
+        : m.orgId ? `\n**Organization:** ${m.orgId}` : '\n**Project:** (global)';
       const priorityStr = m.priority && m.priority !== 'normal' ? ` **[${m.priority.toUpperCase()}]**` : '';
       const stalenessInfo = getStalenessInfo(m);
       const stalenessStr = stalenessInfo ? ` **(${stalenessInfo})**` : '';
-      return `## ${m.title}${priorityStr}${stalenessStr}\n**Category:** ${m.category}${tagStr}${projectStr}\n**ID:** ${m.id}\n**Updated:** ${m.updated}\n\n${m.content}`;
+      const body = excerpt
+        ? buildExcerpt(m.content.replace(/^#+\s.*\n?/, ''), excerpt.terms, excerpt.maxChars)
+        : m.content;
+      const scoreStr = scores?.has(m.id) ? `\n**Score:** ${scores.get(m.id)}` : '';
+      return `## ${m.title}${priorityStr}${stalenessStr}\n**Category:** ${m.category}${tagStr}${projectStr}\n**ID:** ${m.id}\n**Updated:** ${m.updated}${scoreStr}\n\n${body}`;
     })
     .join('\n\n---\n\n');
 }
@@ -287,7 +636,9 @@ export function formatIndexForDisplay(entries: MemoryIndexEntry[]): string {
     lines.push(`\n## ${category.toUpperCase()}`);
     for (const entry of categoryEntries) {
       const tagStr = entry.tags.length > 0 ? ` [${entry.tags.join(', ')}]` : '';
-      const projectStr = entry.projectName ? ` (${entry.projectName})` : ' (global)';
+      const projectStr = entry.projectName
+        ? ` (${entry.projectName}${entry.subPath ? `/${entry.subPath}` : ''})`
+        : entry.orgId ? ` (org: ${entry.orgId})` : ' (global)';
       const priorityStr = entry.priority && entry.priority !== 'normal' ? ` [${entry.priority.toUpperCase()}]` : '';
       const stalenessInfo = getStalenessInfo(entry);
       const stalenessStr = stalenessInfo ? ` (${stalenessInfo})` : '';
@@ -0,0 +1,149 @@
+/**
+ * Porter stemmer (M.F. Porter, 1980). Reduces English words to a common stem
+ * so "deploying", "deployed" and "deployment" all become "deploy".
+ */
+
+function isConsonant(word: string, i: number): boolean {
+  const c = word[i];
+  if ('aeiou'.includes(c)) return false;
+  if (c === 'y') return i === 0 || !isConsonant(word, i - 1);
+  return true;
+}
+
+// m() - the number of vowel-consonant sequences in the stem
+function measure(stem: string): number {
+  let m = 0;
+  let i = 0;
+  const n = stem.length;
+  while (i < n && isConsonant(stem, i)) i++;
+  while (i < n) {
+    while (i < n && !isConsonant(stem, i)) i++;
+    if (i >= n) break;
+    m++;
+    while (i < n && isConsonant(stem, i)) i++;
+  }
+  return m;
+}
+
+function hasVowel(stem: string): boolean {
+  for (let i = 0; i < stem.length; i++) {
+    if (!isConsonant(stem, i)) return true;
+  }
+  return false;
+}
+
+function endsWithDoubleConsonant(word: string): boolean {
+  const n = word.length;
+  return n >= 2 && word[n - 1] === word[n - 2] && isConsonant(word, n - 1);
+}
+
+// *o - stem ends consonant-vowel-consonant, where the last consonant is not w, x or y
+function endsCVC(word: string): boolean {
+  const n = word.length;
+  if (n < 3) return false;
+  return (
+    isConsonant(word, n - 3) &&
+    !isConsonant(word, n - 2) &&
+    isConsonant(word, n - 1) &&
+    !'wxy'.includes(word[n - 1])
+  );
+}
+
+// Replace the first matching suffix whose stem has measure > minMeasure
+function replaceSuffix(word: string, rules: [string, string][], minMeasure: number): string {
+  for (const [suffix, replacement] of rules) {
+    if (word.endsWith(suffix)) {
+      const stem = word.slice(0, -suffix.length);
+      return measure(stem) > minMeasure ? stem + replacement : word;
+    }
+  }
+  return word;
+}
+
+const STEP2_RULES: [string, string][] = [
+  ['ational', 'ate'], ['tional', 'tion'], ['enci', 'ence'], ['anci', 'ance'],
+  ['izer', 'ize'], ['bli', 'ble'], ['alli', 'al'], ['entli', 'ent'], ['eli', 'e'],
+  ['ousli', 'ous'], ['ization', 'ize'], ['ation', 'ate'], ['ator', 'ate'],
+  ['alism', 'al'], ['iveness', 'ive'], ['fulness', 'ful'], ['ousness', 'ous'],
+  ['aliti', 'al'], ['iviti', 'ive'], ['biliti', 'ble'], ['logi', 'log'],
+];
+
+const STEP3_RULES: [string, string][] = [
+  ['icate', 'ic'], ['ative', ''], ['alize', 'al'], ['iciti', 'ic'],
+  ['ical', 'ic'], ['ful', ''], ['ness', ''],
+];
+
+// Longest first, so "ement" is tried before "ment" and "ent"
+const STEP4_SUFFIXES = [
+  'ement', 'ance', 'ence', 'able', 'ible', 'ment', 'ant', 'ent', 'ion', 'ism',
+  'ate', 'iti', 'ous', 'ive', 'ize', 'al', 'er', 'ic', 'ou',
+];
+
+export function stem(word: string): string {
+  if (word.length <= 2 || !/^[a-z]+$/.test(word)) {
+    return word;
+  }
+
+  let w = word;
+
+  // Step 1a: plurals
+  if (w.endsWith('sses')) w = w.slice(0, -2);
+  else if (w.endsWith('ies')) w = w.slice(0, -2);
+  else if (w.endsWith('ss')) { /* unchanged */ }
+  else if (w.endsWith('s')) w = w.slice(0, -1);
+
+  // Step 1b: -ed and -ing
+  let cleanup = false;
+  if (w.endsWith('eed')) {
+    if (measure(w.slice(0, -3)) > 0) w = w.slice(0, -1);
+  } else if (w.endsWith('ed') && hasVowel(w.slice(0, -2))) {
+    w = w.slice(0, -2);
+    cleanup = true;
+  } else if (w.endsWith('ing') && hasVowel(w.slice(0, -3))) {
+    w = w.slice(0, -3);
+    cleanup = true;
+  }
+  if (cleanup) {
+    if (w.endsWith('at') || w.endsWith('bl') || w.endsWith('iz')) {
+      w += 'e';
+    } else if (endsWithDoubleConsonant(w) && !'lsz'.includes(w[w.length - 1])) {
+      w = w.slice(0, -1);
+    } else if (measure(w) === 1 && endsCVC(w)) {
+      w += 'e';
+    }
+  }
+
+  // Step 1c: y -> i after a consonant (Porter2 rule, so "deploy" keeps its y)
+  if (w.length > 2 && w.endsWith('y') && isConsonant(w, w.length - 2)) {
+    w = w.slice(0, -1) + 'i';
+  }
+
+  // Steps 2-3: double and single suffixes
+  w = replaceSuffix(w, STEP2_RULES, 0);
+  w = replaceSuffix(w, STEP3_RULES, 0);
+
+  // Step 4: strip remaining suffixes when the stem is long enough
+  for (const suffix of STEP4_SUFFIXES) {
+    if (w.endsWith(suffix)) {
+      const base = w.slice(0, -suffix.length);
+      if (measure(base) > 1 && (suffix !== 'ion' || /[st]$/.test(base))) {
+        w = base;
+      }
+      break;
+    }
+  }
+
+  // Step 5: trailing e and double l
+  if (w.endsWith('e')) {
+    const base = w.slice(0, -1);
+    const m = measure(base);
+    if (m > 1 || (m === 1 && !endsCVC(base))) {
+      w = base;
+    }
+  }
+  if (measure(w) > 1 && w.endsWith('ll')) {
+    w = w.slice(0, -1);
+  }
+
+  return w;
+}
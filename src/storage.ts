@@ -1,7 +1,8 @@
-import { readFile, writeFile, mkdir, unlink } from 'fs/promises';
+import { readFile, writeFile, mkdir, unlink, readdir, stat, rename, link, utimes } from 'fs/promises';
 import { existsSync, readdirSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
-import { homedir } from 'os';
-import { join, dirname } from 'path';
+import { homedir, hostname } from 'os';
+import { join, dirname, posix } from 'path';
+import { v4 as uuidv4 } from 'uuid';
 import type { Config, MemoryIndex } from './types.js';
 
 // Config file location for storing OneDrive preference
@@ -11,6 +12,7 @@ const CONFIG_FILE = join(CONFIG_DIR, 'config.json');
 interface StorageConfig {
   oneDrivePath?: string;
   isCustomPath?: boolean; // True if user set a custom path (not OneDrive)
+  backend?: string;       // Name of the registered storage backend (default: filesystem)
 }
 
 // Load saved config
@@ -90,12 +92,13 @@ export function setOneDriveFolder(path: string, isCustom: boolean = false): void
   if (!existsSync(path)) {
     throw new Error(`Path does not exist: ${path}`);
   }
-  saveStorageConfig({ oneDrivePath: path, isCustomPath: isCustom });
+  saveStorageConfig({ ...loadStorageConfig(), oneDrivePath: path, isCustomPath: isCustom });
 }
 
-// Clear the saved preference
+// Clear the saved folder preference (the selected backend is kept)
 export function clearOneDrivePreference(): void {
-  saveStorageConfig({});
+  const { backend } = loadStorageConfig();
+  saveStorageConfig(backend ? { backend } : {});
 }
 
 // Check if multiple OneDrive folders exist and none is configured
@@ -144,6 +147,37 @@ export function getStorageFolder(config: Config): string {
   return join(oneDriveFolder, 'Apps', 'ClaudeMemory');
 }
 
+// ============================================================================
+// Storage backends
+// ============================================================================
+
+export interface StorageStat {
+  size: number;   // Size in bytes
+  modified: Date; // Last modification time
+}
+
+// Releases a lock obtained from StorageBackend.lock
+export type StorageLockRelease = () => Promise<void>;
+
+/**
+ * A place memories can be stored. All paths are relative to the backend's root
+ * and always use forward slashes (e.g. "memories/decision/2025-01-01-foo.md").
+ */
+export interface StorageBackend {
+  readonly name: string;
+  read(relativePath: string): Promise<string | null>;
+  write(relativePath: string, content: string): Promise<void>;
+  delete(relativePath: string): Promise<boolean>;
+  list(relativeDir?: string): Promise<string[]>; // Recursive, files only
+  exists(relativePath: string): Promise<boolean>;
+  stat(relativePath: string): Promise<StorageStat | null>;
+  lock(relativePath: string): Promise<StorageLockRelease>; // Exclusive, cross-process where possible
+}
+
+export type StorageBackendFactory = (config: Config) => StorageBackend;
+
+const DEFAULT_BACKEND = 'filesystem';
+
 // Ensure a directory exists
 async function ensureDir(dirPath: string): Promise<void> {
   if (!existsSync(dirPath)) {
@@ -151,19 +185,402 @@ async function ensureDir(dirPath: string): Promise<void> {
   }
 }
 
-// Read a file from storage
-export async function readStorageFile(config: Config, relativePath: string): Promise<string | null> {
-  const fullPath = join(getStorageFolder(config), relativePath);
+function isNotFound(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException).code === 'ENOENT';
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
 
+// Advisory lock tuning
+const LOCK_STALE_MS = 30_000;   // A lock not refreshed for this long is assumed abandoned
+const LOCK_HEARTBEAT_MS = 10_000; // How often a held lock's mtime is refreshed
+const LOCK_TIMEOUT_MS = 10_000; // Give up waiting after this long
+const LOCK_RETRY_MS = 50;       // Base delay between attempts (jittered)
+
+interface LockFileContent {
+  token: string;
+  host: string;
+  pid: number;
+  acquired: string;
+}
+
+// Check whether a process on this machine is still running
+function isProcessAlive(pid: number): boolean {
   try {
-    return await readFile(fullPath, 'utf-8');
+    process.kill(pid, 0);
+    return true;
   } catch (error: unknown) {
-    const nodeError = error as NodeJS.ErrnoException;
-    if (nodeError.code === 'ENOENT') {
-      return null;
+    // EPERM means the process exists but belongs to someone else
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * A lock is stale if its holder stopped refreshing it, or if its owner on this
+ * machine has exited. Returns the stale lock's content, or null if it is live.
+ */
+async function readStaleLock(lockPath: string): Promise<string | null> {
+  try {
+    const info = await stat(lockPath);
+    const content = await readFile(lockPath, 'utf-8');
+    if (Date.now() - info.mtimeMs > LOCK_STALE_MS) {
+      return content;
+    }
+    const owner = JSON.parse(content) as LockFileContent;
+    const dead = owner.host === hostname() && owner.pid !== process.pid && !isProcessAlive(owner.pid);
+    return dead ? content : null;
+  } catch {
+    // Lock vanished or is half-written; let the next attempt sort it out
+    return null;
+  }
+}
+
+/**
+ * Break a stale lock. The lock is first renamed to a unique name, so only one
+ * waiter can claim it; if it turns out to be a newer lock than the one judged
+ * stale, it is put back.
+ */
+async function breakStaleLock(lockPath: string, staleContent: string): Promise<void> {
+  const claimedPath = `${lockPath}.stale-${uuidv4().substring(0, 8)}`;
+  try {
+    await rename(lockPath, claimedPath);
+  } catch {
+    // Another waiter got there first
+    return;
+  }
+  try {
+    if ((await readFile(claimedPath, 'utf-8')) !== staleContent) {
+      // Fails if yet another lock was created meanwhile, which then wins
+      await link(claimedPath, lockPath).catch(() => undefined);
     }
-    throw error;
+  } finally {
+    await unlink(claimedPath).catch(() => undefined);
+  }
+}
+
+// Read the owner token of a lock file, or null if it is missing or unreadable
+async function readLockToken(lockPath: string): Promise<string | null> {
+  try {
+    return (JSON.parse(await readFile(lockPath, 'utf-8')) as LockFileContent).token;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Write a file atomically: write to a temp file beside it, then rename over the
+ * original so readers (and OneDrive) never see a partially written file.
+ */
+async function writeFileAtomic(fullPath: string, content: string): Promise<void> {
+  const tempPath = `${fullPath}.${process.pid}.${uuidv4().substring(0, 8)}.tmp`;
+  await writeFile(tempPath, content, 'utf-8');
+
+  // Windows can briefly refuse the rename while a sync client holds the file open
+  for (let attempt = 0; ; attempt++) {
+    try {
+      await rename(tempPath, fullPath);
+      return;
+    } catch (error: unknown) {
+      const code = (error as NodeJS.ErrnoException).code;
+      if (attempt < 5 && (code === 'EPERM' || code === 'EBUSY' || code === 'EACCES')) {
+        await sleep(LOCK_RETRY_MS * (attempt + 1));
+        continue;
+      }
+      await unlink(tempPath).catch(() => undefined);
+      throw error;
+    }
+  }
+}
+
+/**
+ * Default backend: plain files under the OneDrive (or custom) storage folder
+ */
+function createFilesystemBackend(config: Config): StorageBackend {
+  // Resolve the folder per operation so configure_storage changes apply immediately
+  const resolve = (relativePath: string) => join(getStorageFolder(config), relativePath);
+
+  return {
+    name: 'filesystem',
+
+    async read(relativePath) {
+      try {
+        return await readFile(resolve(relativePath), 'utf-8');
+      } catch (error: unknown) {
+        if (isNotFound(error)) return null;
+        throw error;
+      }
+    },
+
+    async write(relativePath, content) {
+      const fullPath = resolve(relativePath);
+      // Ensure parent directory exists
+      await ensureDir(dirname(fullPath));
+      await writeFileAtomic(fullPath, content);
+    },
+
+    async delete(relativePath) {
+      try {
+        await unlink(resolve(relativePath));
+        return true;
+      } catch (error: unknown) {
+        if (isNotFound(error)) return false;
+        throw error;
+      }
+    },
+
+    async list(relativeDir = '') {
+      const files: string[] = [];
+      const walk = async (dir: string): Promise<void> => {
+        let entries;
+        try {
+          entries = await readdir(resolve(dir), { withFileTypes: true });
+        } catch (error: unknown) {
+          if (isNotFound(error)) return;
+          throw error;
+        }
+        for (const entry of entries) {
+          const child = dir ? posix.join(dir, entry.name) : entry.name;
+          if (entry.isDirectory()) {
+            await walk(child);
+          } else if (entry.isFile()) {
+            files.push(child);
+          }
+        }
+      };
+      await walk(relativeDir);
+      return files;
+    },
+
+    async exists(relativePath) {
+      return existsSync(resolve(relativePath));
+    },
+
+    async stat(relativePath) {
+      try {
+        const info = await stat(resolve(relativePath));
+        return { size: info.size, modified: info.mtime };
+      } catch (error: unknown) {
+        if (isNotFound(error)) return null;
+        throw error;
+      }
+    },
+
+    async lock(relativePath) {
+      const lockPath = `${resolve(relativePath)}.lock`;
+      await ensureDir(dirname(lockPath));
+
+      const owner: LockFileContent = {
+        token: uuidv4(),
+        host: hostname(),
+        pid: process.pid,
+        acquired: new Date().toISOString(),
+      };
+      const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+      for (;;) {
+        try {
+          // 'wx' fails if the file exists, making creation the atomic acquire step
+          await writeFile(lockPath, JSON.stringify(owner), { encoding: 'utf-8', flag: 'wx' });
+          break;
+        } catch (error: unknown) {
+          if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+        }
+
+        const staleContent = await readStaleLock(lockPath);
+        if (staleContent !== null) {
+          await breakStaleLock(lockPath, staleContent);
+          continue;
+        }
+
+        if (Date.now() > deadline) {
+          throw new Error(
+            `Timed out waiting for lock on ${relativePath}.\n` +
+            `If no other Claude session is using this storage, delete ${lockPath}.`
+          );
+        }
+        await sleep(LOCK_RETRY_MS + Math.random() * LOCK_RETRY_MS);
+      }
+
+      // Keep the lock fresh while held, so slow work isn't mistaken for a crash
+      const heartbeat = setInterval(() => {
+        void readLockToken(lockPath).then(async (token) => {
+          if (token === owner.token) {
+            const now = new Date();
+            await utimes(lockPath, now, now);
+          }
+        }).catch(() => undefined);
+      }, LOCK_HEARTBEAT_MS);
+      heartbeat.unref();
+
+      return async () => {
+        clearInterval(heartbeat);
+        // Only remove the lock if it is still ours (it may have been broken as stale)
+        try {
+          if ((await readLockToken(lockPath)) === owner.token) {
+            await unlink(lockPath);
+          }
+        } catch {
+          // Already gone
+        }
+      };
+    },
+  };
+}
+
+// Shared store for the in-memory backend (lives for the lifetime of the process)
+const memoryStore = new Map<string, { content: string; modified: Date }>();
+// Tail of the wait queue for each locked path in the in-memory backend
+const memoryLocks = new Map<string, Promise<void>>();
+
+/**
+ * Volatile backend that keeps everything in process memory. Useful for
+ * experiments and for exercising code paths without touching OneDrive.
+ */
+function createMemoryBackend(): StorageBackend {
+  const normalize = (relativePath: string) => posix.normalize(relativePath).replace(/^\.?\/+/, '');
+
+  return {
+    name: 'memory',
+
+    async read(relativePath) {
+      return memoryStore.get(normalize(relativePath))?.content ?? null;
+    },
+
+    async write(relativePath, content) {
+      memoryStore.set(normalize(relativePath), { content, modified: new Date() });
+    },
+
+    async delete(relativePath) {
+      return memoryStore.delete(normalize(relativePath));
+    },
+
+    async list(relativeDir = '') {
+      const prefix = relativeDir ? normalize(relativeDir).replace(/\/?$/, '/') : '';
+      return [...memoryStore.keys()].filter((key) => key.startsWith(prefix));
+    },
+
+    async exists(relativePath) {
+      return memoryStore.has(normalize(relativePath));
+    },
+
+    async stat(relativePath) {
+      const file = memoryStore.get(normalize(relativePath));
+      return file ? { size: Buffer.byteLength(file.content, 'utf-8'), modified: file.modified } : null;
+    },
+
+    async lock(relativePath) {
+      // Single process only, so a promise chain per path is enough
+      const key = normalize(relativePath);
+      const previous = memoryLocks.get(key) ?? Promise.resolve();
+      let release!: () => void;
+      const current = new Promise<void>((resolve) => {
+        release = resolve;
+      });
+      const tail = previous.then(() => current);
+      memoryLocks.set(key, tail);
+      await previous;
+
+      return async () => {
+        release();
+        if (memoryLocks.get(key) === tail) {
+          memoryLocks.delete(key);
+        }
+      };
+    },
+  };
+}
+
+const backendFactories = new Map<string, StorageBackendFactory>([
+  ['filesystem', createFilesystemBackend],
+  ['memory', createMemoryBackend],
+]);
+
+// Backends that keep nothing between runs. They are never saved to config.json,
+// so a restart can't silently swap the user's memories for an empty store.
+const volatileBackends = new Set<string>(['memory']);
+
+// Volatile backend selected for this process only
+let sessionBackend: string | null = null;
+
+/**
+ * Register an additional storage backend (e.g. SQLite or a remote service)
+ */
+export function registerStorageBackend(
+  name: string,
+  factory: StorageBackendFactory,
+  options: { volatile?: boolean } = {}
+): void {
+  backendFactories.set(name, factory);
+  if (options.volatile) {
+    volatileBackends.add(name);
+  } else {
+    volatileBackends.delete(name);
+  }
+}
+
+// Whether a backend loses its contents when the process exits
+export function isVolatileBackend(name: string): boolean {
+  return volatileBackends.has(name);
+}
+
+// Names of all registered backends
+export function listStorageBackends(): string[] {
+  return Array.from(backendFactories.keys());
+}
+
+// Name of the backend currently in use
+export function getStorageBackendName(): string {
+  if (sessionBackend) {
+    return sessionBackend;
+  }
+  // A volatile backend saved by an older version is ignored
+  const saved = loadStorageConfig().backend;
+  return saved && !isVolatileBackend(saved) ? saved : DEFAULT_BACKEND;
+}
+
+/**
+ * Select the backend used for all storage operations. Persistent backends are
+ * saved to config.json; volatile ones only apply until the server stops.
+ */
+export function setStorageBackend(name: string): void {
+  if (!backendFactories.has(name)) {
+    throw new Error(
+      `Unknown storage backend: ${name}. Available: ${listStorageBackends().join(', ')}`
+    );
+  }
+  if (isVolatileBackend(name)) {
+    sessionBackend = name;
+    return;
+  }
+  sessionBackend = null;
+
+  const config = loadStorageConfig();
+  if (name === DEFAULT_BACKEND) {
+    delete config.backend;
+  } else {
+    config.backend = name;
+  }
+  saveStorageConfig(config);
+}
+
+// Get the backend all storage helpers dispatch through
+export function getStorageBackend(config: Config): StorageBackend {
+  const name = getStorageBackendName();
+  const factory = backendFactories.get(name);
+  if (!factory) {
+    throw new Error(
+      `Storage backend "${name}" is not registered.\n` +
+      'Use "configure_storage" tool with action="backend" to choose another.'
+    );
   }
+  return factory(config);
+}
+
+// Read a file from storage
+export async function readStorageFile(config: Config, relativePath: string): Promise<string | null> {
+  return getStorageBackend(config).read(relativePath);
 }
 
 // Write a file to storage
@@ -172,38 +589,47 @@ export async function writeStorageFile(
   relativePath: string,
   content: string
 ): Promise<void> {
-  const fullPath = join(getStorageFolder(config), relativePath);
-
-  // Ensure parent directory exists
-  await ensureDir(dirname(fullPath));
-
-  await writeFile(fullPath, content, 'utf-8');
+  await getStorageBackend(config).write(relativePath, content);
 }
 
 // Delete a file from storage
 export async function deleteStorageFile(config: Config, relativePath: string): Promise<boolean> {
-  const fullPath = join(getStorageFolder(config), relativePath);
-
-  try {
-    await unlink(fullPath);
-    return true;
-  } catch (error: unknown) {
-    const nodeError = error as NodeJS.ErrnoException;
-    if (nodeError.code === 'ENOENT') {
-      return false;
-    }
-    throw error;
-  }
+  return getStorageBackend(config).delete(relativePath);
 }
 
 // Check if a file exists
 export async function storageFileExists(config: Config, relativePath: string): Promise<boolean> {
-  const fullPath = join(getStorageFolder(config), relativePath);
-  return existsSync(fullPath);
+  return getStorageBackend(config).exists(relativePath);
+}
+
+// List all files under a directory in storage (recursive)
+export async function listStorageFiles(config: Config, relativeDir: string = ''): Promise<string[]> {
+  return getStorageBackend(config).list(relativeDir);
+}
+
+// Get size and modification time of a file in storage
+export async function statStorageFile(config: Config, relativePath: string): Promise<StorageStat | null> {
+  return getStorageBackend(config).stat(relativePath);
 }
 
 // Index-specific helpers
 const INDEX_FILE = 'index.json';
+// Common ancestor for merging index conflict copies. Kept per machine outside the
+// synced folder, where another machine's snapshot would overwrite it.
+const INDEX_BASE_FILE = join(CONFIG_DIR, `index.base.${hostname().replace(/[^\w.-]/g, '_')}.json`);
+
+interface IndexBaseFile {
+  storage: string; // Storage the snapshot belongs to
+  index: MemoryIndex;
+}
+
+// Thrown by readIndex when index.json exists but can't be used
+export class IndexCorruptError extends Error {
+  constructor(message: string, readonly rawContent: string) {
+    super(message);
+    this.name = 'IndexCorruptError';
+  }
+}
 
 export async function readIndex(config: Config): Promise<MemoryIndex> {
   const content = await readStorageFile(config, INDEX_FILE);
@@ -215,9 +641,77 @@ export async function readIndex(config: Config): Promise<MemoryIndex> {
     };
   }
 
-  return JSON.parse(content) as MemoryIndex;
+  let index: MemoryIndex;
+  try {
+    index = JSON.parse(content) as MemoryIndex;
+  } catch (error) {
+    throw new IndexCorruptError(
+      `${INDEX_FILE} is not valid JSON: ${error instanceof Error ? error.message : 'parse error'}`,
+      content
+    );
+  }
+
+  if (!index || !Array.isArray(index.memories)) {
+    throw new IndexCorruptError(`${INDEX_FILE} has no "memories" array`, content);
+  }
+
+  return index;
 }
 
 export async function writeIndex(config: Config, index: MemoryIndex): Promise<void> {
-  await writeStorageFile(config, INDEX_FILE, JSON.stringify(index, null, 2));
+  const content = JSON.stringify(index, null, 2);
+  await writeStorageFile(config, INDEX_FILE, content);
+}
+
+// Identifies the storage an index base belongs to, or null if none is configured
+function indexBaseStorage(config: Config): string | null {
+  try {
+    return `${getStorageBackendName()}:${getStorageFolder(config)}`;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read this machine's last known in-sync index, or null if there is none for
+ * the current storage (so nothing can be mistaken for a deletion)
+ */
+export async function readIndexBase(config: Config): Promise<MemoryIndex | null> {
+  const storage = indexBaseStorage(config);
+  try {
+    const base = JSON.parse(await readFile(INDEX_BASE_FILE, 'utf-8')) as IndexBaseFile;
+    return storage && base.storage === storage && Array.isArray(base.index?.memories) ? base.index : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Record an index every machine is known to share (e.g. the result of merging
+ * their conflict copies), to use as the common ancestor of the next merge
+ */
+export async function writeIndexBase(config: Config, index: MemoryIndex): Promise<void> {
+  const storage = indexBaseStorage(config);
+  if (!storage) return;
+  try {
+    await ensureDir(CONFIG_DIR);
+    const base: IndexBaseFile = { storage, index };
+    await writeFileAtomic(INDEX_BASE_FILE, JSON.stringify(base, null, 2));
+  } catch {
+    // Without a base the next merge just keeps entries rather than deleting them
+  }
+}
+
+/**
+ * Run a read-modify-write of the index (and any memory files it covers) while
+ * holding the index lock, so concurrent sessions can't drop each other's entries.
+ * Not reentrant: don't call another locked operation from inside fn.
+ */
+export async function withIndexLock<T>(config: Config, fn: () => Promise<T>): Promise<T> {
+  const release = await getStorageBackend(config).lock(INDEX_FILE);
+  try {
+    return await fn();
+  } finally {
+    await release();
+  }
 }
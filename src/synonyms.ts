@@ -0,0 +1,75 @@
+import { readStorageFile } from './storage.js';
+import { tokenize } from './fulltext.js';
+import type { Config } from './types.js';
+
+/**
+ * Synonyms used to widen recall queries. Keys and values are matched in both
+ * directions, so "k8s" finds "kubernetes" and "kubernetes" finds "k8s".
+ */
+export type SynonymMap = Record<string, string[]>;
+
+// Stored next to index.json so every machine shares the same map
+const SYNONYMS_FILE = 'synonyms.json';
+
+export const DEFAULT_SYNONYMS: SynonymMap = {
+  k8s: ['kubernetes'],
+  db: ['database'],
+  pg: ['postgres', 'postgresql'],
+  postgres: ['postgresql'],
+  js: ['javascript'],
+  ts: ['typescript'],
+  py: ['python'],
+  auth: ['authentication', 'authorization'],
+  config: ['configuration'],
+  env: ['environment'],
+  repo: ['repository'],
+  deps: ['dependencies'],
+  ci: ['pipeline'],
+  ui: ['interface'],
+  api: ['endpoint'],
+};
+
+/**
+ * Load the synonym map: the defaults plus synonyms.json from storage. A key in
+ * synonyms.json replaces the default entry (use [] to disable one).
+ */
+export async function loadSynonyms(config: Config): Promise<SynonymMap> {
+  // No prototype, so keys from synonyms.json like "__proto__" are plain entries
+  const map: SynonymMap = Object.assign(Object.create(null), DEFAULT_SYNONYMS);
+
+  const content = await readStorageFile(config, SYNONYMS_FILE);
+  if (content) {
+    try {
+      const custom = JSON.parse(content) as SynonymMap;
+      for (const [key, values] of Object.entries(custom)) {
+        if (Array.isArray(values)) {
+          map[key.toLowerCase()] = values.map((v) => String(v).toLowerCase());
+        }
+      }
+    } catch {
+      // A malformed file falls back to the defaults
+    }
+  }
+
+  return map;
+}
+
+/**
+ * Synonym terms for one query term (tokenized, excluding the term itself)
+ */
+export function getSynonyms(map: SynonymMap, term: string): string[] {
+  const found = new Set<string>();
+
+  // Own entries only: "constructor" and friends aren't synonyms
+  for (const value of Object.hasOwn(map, term) ? map[term] : []) {
+    tokenize(value).forEach((t) => found.add(t));
+  }
+  for (const [key, values] of Object.entries(map)) {
+    if (values.some((v) => v.toLowerCase() === term)) {
+      tokenize(key).forEach((t) => found.add(t));
+    }
+  }
+
+  found.delete(term);
+  return [...found];
+}
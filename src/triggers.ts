@@ -1,10 +1,15 @@
 import { existsSync, readdirSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
-import { join } from 'path';
+import { join, dirname, resolve } from 'path';
 import { homedir } from 'os';
 import { detectProjectContext } from './project.js';
+import { loadRepoConfig } from './repo-config.js';
+import { matchesGlob, parseIgnoreRules, matchIgnoreRules } from './glob.js';
+import type { IgnoreRule } from './glob.js';
+import { isManifest, parseManifest, getDependencyTagMappings, getTagsForDependency } from './dependencies.js';
+import type { DetectedDependency } from './dependencies.js';
 
 export interface FilePatternMapping {
-  pattern: string;      // Glob-like pattern (e.g., "*.prisma", "Dockerfile")
+  pattern: string;      // Glob (e.g., "*.prisma", "Dockerfile", "**/*.tf"); matched from the git root when it contains a slash
   tags: string[];       // Tags to search for when pattern is found
   category?: string;    // Optional category filter
   description: string;  // Human-readable description
@@ -33,24 +38,41 @@ const PATTERNS_FILE = join(CONFIG_DIR, 'patterns.json');
 const LAST_PROJECT_FILE = join(CONFIG_DIR, 'last-project.json');
 
 /**
- * Get all file pattern mappings (default + user custom)
+ * Get the built-in pattern mappings
  */
-export function getPatternMappings(): FilePatternMapping[] {
-  const patterns = [...DEFAULT_PATTERNS];
+export function getDefaultPatterns(): FilePatternMapping[] {
+  return [...DEFAULT_PATTERNS];
+}
 
-  // Load custom patterns if they exist
-  if (existsSync(PATTERNS_FILE)) {
-    try {
-      const custom = JSON.parse(readFileSync(PATTERNS_FILE, 'utf-8'));
-      if (Array.isArray(custom)) {
-        patterns.push(...custom);
-      }
-    } catch {
-      // Invalid JSON, ignore
-    }
+/**
+ * Get the user's custom pattern mappings from patterns.json
+ */
+export function getCustomPatterns(): FilePatternMapping[] {
+  if (!existsSync(PATTERNS_FILE)) {
+    return [];
+  }
+
+  try {
+    const custom = JSON.parse(readFileSync(PATTERNS_FILE, 'utf-8'));
+    return Array.isArray(custom) ? custom : [];
+  } catch {
+    // Invalid JSON, ignore
+    return [];
   }
+}
+
+/**
+ * Get the patterns from the repository's .claude-memory.json
+ */
+export function getRepoPatterns(gitRoot: string | null = findGitRoot(process.cwd())): FilePatternMapping[] {
+  return loadRepoConfig(gitRoot).patterns || [];
+}
 
-  return patterns;
+/**
+ * Get all file pattern mappings (default + user custom + repository)
+ */
+export function getPatternMappings(gitRoot: string | null = findGitRoot(process.cwd())): FilePatternMapping[] {
+  return [...DEFAULT_PATTERNS, ...getCustomPatterns(), ...getRepoPatterns(gitRoot)];
 }
 
 /**
@@ -63,89 +85,206 @@ export function saveCustomPatterns(patterns: FilePatternMapping[]): void {
   writeFileSync(PATTERNS_FILE, JSON.stringify(patterns, null, 2), 'utf-8');
 }
 
+// Recursive scan limits; directories past the depth are not entered
+const MAX_SCAN_DEPTH = 6;
+const MAX_SCAN_FILES = 5000;
+const SCAN_CACHE_TTL_MS = 60 * 1000;
+const MAX_MANIFESTS = 50;
+
+// Never worth scanning, even without a .gitignore
+const ALWAYS_SKIPPED = new Set(['.git', 'node_modules']);
+
+interface IgnoreLayer {
+  base: string; // Directory of the .gitignore, relative to the scan root ('' for the root)
+  rules: IgnoreRule[];
+}
+
+// Scan results per git root (or directory, outside git)
+const scanCache = new Map<string, { files: string[]; scannedAt: number }>();
+
 /**
- * Simple glob-like pattern matching
+ * Find the git root for a directory by walking up to the nearest .git
  */
-function matchesPattern(filename: string, pattern: string): boolean {
-  // Handle exact match
-  if (pattern === filename) return true;
-
-  // Handle *.ext pattern
-  if (pattern.startsWith('*.')) {
-    const ext = pattern.slice(1); // Get ".ext"
-    return filename.endsWith(ext);
+export function findGitRoot(directory: string): string | null {
+  let current = resolve(directory);
+  while (true) {
+    if (existsSync(join(current, '.git'))) {
+      return current;
+    }
+    const parent = dirname(current);
+    if (parent === current) {
+      return null;
+    }
+    current = parent;
   }
+}
+
+function isIgnored(relativePath: string, isDirectory: boolean, layers: IgnoreLayer[]): boolean {
+  let ignored = false;
+  for (const layer of layers) {
+    const pathInLayer = layer.base ? relativePath.slice(layer.base.length + 1) : relativePath;
+    const result = matchIgnoreRules(pathInLayer, isDirectory, layer.rules);
+    if (result !== undefined) {
+      ignored = result;
+    }
+  }
+  return ignored;
+}
 
-  // Handle prefix* pattern (e.g., "docker-compose*")
-  if (pattern.endsWith('*') && !pattern.startsWith('*')) {
-    const prefix = pattern.slice(0, -1);
-    return filename.startsWith(prefix);
+function loadIgnoreLayer(root: string, base: string): IgnoreLayer | null {
+  const gitignorePath = join(root, base, '.gitignore');
+  if (!existsSync(gitignorePath)) {
+    return null;
+  }
+  try {
+    return { base, rules: parseIgnoreRules(readFileSync(gitignorePath, 'utf-8')) };
+  } catch {
+    return null;
   }
+}
+
+/**
+ * List files under root (relative paths with forward slashes), honouring
+ * .gitignore files at every level, up to MAX_SCAN_DEPTH directories deep
+ */
+export function scanProjectFiles(root: string): string[] {
+  const files: string[] = [];
+
+  const walk = (relativeDir: string, depth: number, layers: IgnoreLayer[]) => {
+    const layer = loadIgnoreLayer(root, relativeDir);
+    const activeLayers = layer ? [...layers, layer] : layers;
 
-  // Handle */subpath pattern (directory wildcard)
-  if (pattern.includes('/*')) {
-    const parts = pattern.split('/*');
-    if (parts.length === 2) {
-      // Simple case: dir/* matches any file in dir
-      return filename.startsWith(parts[0] + '/');
+    let entries;
+    try {
+      entries = readdirSync(join(root, relativeDir), { withFileTypes: true });
+    } catch {
+      // Can't read directory, skip it
+      return;
+    }
+    // Files before subdirectories, so shallow files are kept when the limit is hit
+    entries.sort((a, b) => Number(a.isDirectory()) - Number(b.isDirectory()) || a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+      if (files.length >= MAX_SCAN_FILES) return;
+      if (ALWAYS_SKIPPED.has(entry.name)) continue;
+
+      const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+      const isDirectory = entry.isDirectory();
+      if (isIgnored(relativePath, isDirectory, activeLayers)) continue;
+
+      if (isDirectory) {
+        if (depth < MAX_SCAN_DEPTH) {
+          walk(relativePath, depth + 1, activeLayers);
+        }
+      } else if (entry.isFile()) {
+        files.push(relativePath);
+      }
     }
+  };
+
+  walk('', 0, []);
+  return files;
+}
+
+/**
+ * Scan from the git root (so every package of a monorepo is seen) and return
+ * the root and its files. Results are cached per root for a short time.
+ */
+export function getProjectFiles(directory: string = process.cwd()): { root: string; files: string[] } {
+  const root = findGitRoot(directory) || resolve(directory);
+  const cached = scanCache.get(root);
+  if (cached && Date.now() - cached.scannedAt < SCAN_CACHE_TTL_MS) {
+    return { root, files: cached.files };
   }
 
-  return false;
+  const files = scanProjectFiles(root);
+  scanCache.set(root, { files, scannedAt: Date.now() });
+  return { root, files };
 }
 
 /**
- * Scan current directory for files matching patterns
+ * Match a list of relative file paths against the patterns
  */
-export function detectFilePatterns(directory: string = process.cwd()): FilePatternMapping[] {
-  const patterns = getPatternMappings();
+function matchPatterns(paths: string[], patterns: FilePatternMapping[]): FilePatternMapping[] {
   const matchedPatterns: FilePatternMapping[] = [];
   const seenDescriptions = new Set<string>();
 
+  for (const pattern of patterns) {
+    // Avoid duplicate descriptions
+    if (seenDescriptions.has(pattern.description)) continue;
+    if (paths.some((filePath) => matchesGlob(filePath, pattern.pattern))) {
+      matchedPatterns.push(pattern);
+      seenDescriptions.add(pattern.description);
+    }
+  }
+
+  return matchedPatterns;
+}
+
+/**
+ * Scan the project (from its git root) for files matching patterns
+ */
+export function detectFilePatterns(directory: string = process.cwd()): FilePatternMapping[] {
   try {
-    // Scan top-level files
-    const files = readdirSync(directory, { withFileTypes: true });
-
-    for (const file of files) {
-      const filename = file.name;
-
-      for (const pattern of patterns) {
-        if (matchesPattern(filename, pattern.pattern)) {
-          // Avoid duplicate descriptions
-          if (!seenDescriptions.has(pattern.description)) {
-            matchedPatterns.push(pattern);
-            seenDescriptions.add(pattern.description);
-          }
-        }
+    const { root, files } = getProjectFiles(directory);
+    return matchPatterns(files, getPatternMappings(root));
+  } catch {
+    // Can't scan, return empty
+    return [];
+  }
+}
+
+/**
+ * Read dependency manifests in the project (from its git root) and return
+ * the declared dependencies that map to tags
+ */
+export function detectDependencies(directory: string = process.cwd()): DetectedDependency[] {
+  const detected: DetectedDependency[] = [];
+  const seenNames = new Set<string>();
+
+  try {
+    const { root, files } = getProjectFiles(directory);
+    const mappings = getDependencyTagMappings();
+
+    for (const manifest of files.filter(isManifest).slice(0, MAX_MANIFESTS)) {
+      let content: string;
+      try {
+        content = readFileSync(join(root, manifest), 'utf-8');
+      } catch {
+        continue;
       }
 
-      // Check subdirectories for specific patterns (like .github/workflows)
-      if (file.isDirectory() && filename === '.github') {
-        try {
-          const workflowsDir = join(directory, '.github', 'workflows');
-          if (existsSync(workflowsDir)) {
-            const workflowPattern = patterns.find(p => p.pattern.includes('.github/workflows'));
-            if (workflowPattern && !seenDescriptions.has(workflowPattern.description)) {
-              matchedPatterns.push(workflowPattern);
-              seenDescriptions.add(workflowPattern.description);
-            }
-          }
-        } catch {
-          // Ignore errors reading subdirectories
+      for (const name of parseManifest(manifest, content)) {
+        if (seenNames.has(name)) continue;
+        seenNames.add(name);
+        const tags = getTagsForDependency(name, mappings);
+        if (tags) {
+          detected.push({ name, manifest, tags });
         }
       }
     }
   } catch {
-    // Can't read directory, return empty
+    // Can't scan, return what we have
   }
 
-  return matchedPatterns;
+  return detected;
+}
+
+/**
+ * Match a list of file paths relative to the git root (e.g. changed files
+ * from git) against the patterns
+ */
+export function detectPatternsInPaths(
+  paths: string[],
+  gitRoot: string | null = findGitRoot(process.cwd())
+): FilePatternMapping[] {
+  return matchPatterns(paths, getPatternMappings(gitRoot));
 }
 
 /**
- * Get all unique tags from matched patterns
+ * Get all unique tags from matched patterns (or detected dependencies)
  */
-export function getTagsFromPatterns(matchedPatterns: FilePatternMapping[]): string[] {
+export function getTagsFromPatterns(matchedPatterns: Pick<FilePatternMapping, 'tags'>[]): string[] {
   const tags = new Set<string>();
   for (const pattern of matchedPatterns) {
     for (const tag of pattern.tags) {
@@ -8,6 +8,9 @@ export type MemoryCategory =
 
 export type MemoryPriority = 'high' | 'normal' | 'low';
 
+// project: the current repo; org: every repo of its organization; global: everywhere
+export type MemoryScope = 'project' | 'org' | 'global';
+
 export interface MemoryMetadata {
   id: string;
   category: MemoryCategory;
@@ -17,6 +20,8 @@ export interface MemoryMetadata {
   updated: string; // ISO date string
   projectId?: string;   // Git remote URL (normalized) or null for global
   projectName?: string; // Human-readable project name
+  subPath?: string;     // Directory relative to the git root (e.g. "apps/web"); unset for repo-wide
+  orgId?: string;       // Organization (e.g. "github.com/our-org") for org-wide memories, which have no projectId
   priority?: MemoryPriority; // Memory importance (default: normal)
   expiresAt?: string;   // ISO date string - memory auto-expires after this date
   relatedTo?: string[]; // IDs of related memories
@@ -37,6 +42,8 @@ export interface MemoryIndexEntry {
   snippet: string; // First ~100 chars of content for search
   projectId?: string;   // Git remote URL (normalized) or null for global
   projectName?: string; // Human-readable project name
+  subPath?: string;     // Directory relative to the git root (e.g. "apps/web"); unset for repo-wide
+  orgId?: string;       // Organization (e.g. "github.com/our-org") for org-wide memories, which have no projectId
   priority?: MemoryPriority; // Memory importance (default: normal)
   expiresAt?: string;   // ISO date string - memory auto-expires after this date
   relatedTo?: string[]; // IDs of related memories
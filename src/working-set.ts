@@ -0,0 +1,107 @@
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import * as path from 'path';
+import { tokenize } from './fulltext.js';
+
+const execAsync = promisify(exec);
+
+/**
+ * What the developer is working on right now, from git: changed files, the
+ * current branch and recent commit subjects
+ */
+export interface GitWorkingSet {
+  branch: string | null;
+  changedFiles: string[];  // Paths relative to the git root (staged, unstaged and untracked)
+  recentCommits: string[]; // Subjects, newest first
+}
+
+const RECENT_COMMITS = 10;
+const MAX_KEYWORDS = 8;
+const GIT_TIMEOUT_MS = 5000;
+
+// Words that say nothing about the subsystem being edited
+const GENERIC_WORDS = new Set([
+  // Branch prefixes
+  'feature', 'feat', 'fix', 'bugfix', 'hotfix', 'chore', 'release', 'main', 'master', 'develop', 'dev', 'wip',
+  // Path segments and file names
+  'src', 'lib', 'dist', 'test', 'tests', 'spec', 'index', 'app', 'utils', 'util', 'js', 'ts', 'tsx',
+  'jsx', 'json', 'md', 'yml', 'yaml', 'readme',
+  // Commit vocabulary
+  'add', 'added', 'adds', 'update', 'updated', 'updates', 'remove', 'removed', 'fixed', 'fixes', 'refactor',
+  'merge', 'branch', 'pull', 'request', 'into', 'use', 'make', 'more', 'some', 'when', 'not', 'new', 'bump',
+  'docs', 'style', 'perf', 'ci', 'build', 'revert',
+]);
+
+async function git(command: string, cwd: string): Promise<string | null> {
+  try {
+    const { stdout } = await execAsync(`git ${command}`, { cwd, encoding: 'utf-8', timeout: GIT_TIMEOUT_MS });
+    return stdout;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read the git working set for a directory. Returns empty values outside a
+ * git repository.
+ */
+export async function getGitWorkingSet(directory: string = process.cwd()): Promise<GitWorkingSet> {
+  const [branchOut, statusOut, logOut] = await Promise.all([
+    git('rev-parse --abbrev-ref HEAD', directory),
+    git('status --porcelain --untracked-files=all', directory),
+    git(`log -n ${RECENT_COMMITS} --format=%s`, directory),
+  ]);
+
+  const branch = branchOut?.trim() || null;
+
+  const changedFiles: string[] = [];
+  for (const line of (statusOut || '').split('\n')) {
+    if (line.length < 4) continue;
+    // "XY path" or "XY old -> new" for renames
+    let file = line.slice(3).trim();
+    if (file.includes(' -> ')) {
+      file = file.split(' -> ')[1];
+    }
+    changedFiles.push(file.replace(/^"(.*)"$/, '$1'));
+  }
+
+  return {
+    branch: branch === 'HEAD' ? null : branch,
+    changedFiles,
+    recentCommits: (logOut || '').split('\n').map((s) => s.trim()).filter(Boolean),
+  };
+}
+
+/**
+ * The most telling words in the working set, for use as search terms.
+ * Changed paths and the branch name count more than commit subjects.
+ */
+export function extractWorkingSetKeywords(workingSet: GitWorkingSet, max: number = MAX_KEYWORDS): string[] {
+  const counts = new Map<string, number>();
+  const add = (text: string, weight: number) => {
+    // Split camelCase so "searchMemories" contributes "search" and "memories"
+    const words = tokenize(text.replace(/([a-z])([A-Z])/g, '$1 $2'));
+    for (const word of words) {
+      if (GENERIC_WORDS.has(word) || /^\d+$/.test(word)) continue;
+      counts.set(word, (counts.get(word) || 0) + weight);
+    }
+  };
+
+  if (workingSet.branch) {
+    add(workingSet.branch, 3);
+  }
+  for (const file of workingSet.changedFiles) {
+    const parsed = path.posix.parse(file);
+    add(parsed.dir, 1);
+    add(parsed.name, 2);
+  }
+  for (const subject of workingSet.recentCommits) {
+    // Drop conventional-commit prefixes like "fix(api):"
+    add(subject.replace(/^\w+(\([^)]*\))?!?:\s*/, ''), 1);
+  }
+
+  return [...counts]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, max)
+    .map(([word]) => word);
+}